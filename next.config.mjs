@@ -4,6 +4,11 @@ const nextConfig = {
 		viewTransition: true,
 		// ppr: true, // PPR requires Next.js canary - using manual Suspense pattern instead
 	},
+	// the file based redirect store is read at runtime, so make sure it's deployed with the routes that use it
+	outputFileTracingIncludes: {
+		'/api/redirect': ['./data/redirections*.json'],
+		'/api/redirect/filter': ['./data/redirections*.json'],
+	},
 }
 
 export default nextConfig
@@ -0,0 +1,317 @@
+/**
+ * Generate TypeScript interfaces and zod validators from an exported Agility content model definition.
+ *
+ * Usage:
+ *   npm run generate-types
+ *   npm run generate-types -- --input=data/content-models.json --out=src/lib/types/generated
+ *
+ * The input is a JSON array of models (or an object with `models`, `contentModels` and/or `componentModels` arrays),
+ * each with a `referenceName` and `fields: [{ name, type, settings }]`, as exported from the Agility management API.
+ */
+import fs from "fs"
+import path from "path"
+
+interface ModelField {
+	name: string
+	label?: string
+	type: string
+	settings?: { [key: string]: string | null | undefined }
+}
+
+interface ContentModel {
+	referenceName: string
+	displayName?: string
+	fields: ModelField[]
+}
+
+interface GeneratedField {
+	key: string
+	tsType: string
+	zodType: string
+	required: boolean
+	comment?: string
+}
+
+const args = process.argv.slice(2)
+const getArg = (name: string, defaultValue: string) => {
+	const arg = args.find(a => a.startsWith(`--${name}=`))
+	return arg ? arg.slice(name.length + 3) : defaultValue
+}
+
+//relative paths are from the project root, absolute paths are used as they are
+const INPUT_PATH = path.resolve(process.cwd(), getArg("input", "data/content-models.json"))
+const OUT_DIR = path.resolve(process.cwd(), getArg("out", "src/lib/types/generated"))
+
+const HEADER = `// Generated by node/generate-types.ts from ${path.relative(process.cwd(), INPUT_PATH)} - do not edit, run \`npm run generate-types\` instead.\n`
+
+const pascalCase = (name: string) => name
+	.split(/[^a-zA-Z0-9]+/)
+	.filter(Boolean)
+	.map(part => part.charAt(0).toUpperCase() + part.slice(1))
+	.join("")
+
+//the fetch API lower cases the first letter of each field name
+const fieldKey = (name: string) => name.charAt(0).toLowerCase() + name.slice(1)
+
+const interfaceName = (referenceName: string) => `I${pascalCase(referenceName)}`
+const schemaName = (referenceName: string) => {
+	const name = pascalCase(referenceName)
+	return `${name.charAt(0).toLowerCase()}${name.slice(1)}Schema`
+}
+
+const readModels = (): ContentModel[] => {
+	const json = JSON.parse(fs.readFileSync(INPUT_PATH, "utf8"))
+	const models: ContentModel[] = Array.isArray(json)
+		? json
+		: [...(json.models || []), ...(json.contentModels || []), ...(json.componentModels || [])]
+
+	return models.filter(model => model && model.referenceName && Array.isArray(model.fields))
+}
+
+/**
+ * Map an Agility field to its TypeScript and zod types.
+ */
+const mapField = (field: ModelField, modelNames: Set<string>, imports: Set<string>): GeneratedField[] => {
+
+	const settings = field.settings || {}
+	const key = fieldKey(field.name)
+	const required = `${settings.Required}`.toLowerCase() === "true"
+	const type = field.type.toLowerCase()
+
+	switch (type) {
+		case "text":
+		case "longtext":
+		case "html":
+		case "hidden":
+		case "dropdown":
+		case "date":
+		case "datetime":
+			return [{ key, tsType: "string", zodType: "z.string()", required }]
+
+		case "integer":
+		case "number":
+			return [{ key, tsType: "number", zodType: "z.number()", required }]
+
+		case "decimal":
+			//decimals can come back as strings from the fetch api (to keep their precision)
+			return [{ key, tsType: "number | string", zodType: "z.union([z.number(), z.string()])", required }]
+
+		case "boolean":
+			//booleans come back as "true" / "false" strings from the fetch api
+			return [{ key, tsType: `boolean | "true" | "false"`, zodType: "booleanFieldSchema", required }]
+
+		case "imageattachment":
+			imports.add("ImageField")
+			return [{ key, tsType: "ImageField", zodType: "imageFieldSchema", required }]
+
+		case "attachmentlist":
+			imports.add("ImageField")
+			return [{ key, tsType: "ImageField[]", zodType: "z.array(imageFieldSchema)", required }]
+
+		case "fileattachment":
+			imports.add("FileField")
+			return [{ key, tsType: "FileField", zodType: "fileFieldSchema", required }]
+
+		case "photogallery":
+			imports.add("GalleryField")
+			return [{ key, tsType: "GalleryField", zodType: "galleryFieldSchema", required }]
+
+		case "link":
+		case "url":
+			imports.add("URLField")
+			return [{ key, tsType: "URLField", zodType: "urlFieldSchema", required }]
+
+		case "content": {
+			const linkedModel = settings.ContentDefinition || ""
+			const linkedType = modelNames.has(linkedModel.toLowerCase()) ? interfaceName(linkedModel) : "any"
+			const renderAs = `${settings.RenderAs || ""}`.toLowerCase()
+			const addItemImports = () => {
+				imports.add("ContentItem")
+				if (linkedType !== "any") imports.add(`./${linkedType}`)
+			}
+
+			if (renderAs === "dropdown") {
+				addItemImports()
+				//a single linked item, with its title and id alongside - in fields of their own, if the model names them
+				const textKey = settings.LinkeContentDropdownTextField ? fieldKey(settings.LinkeContentDropdownTextField) : `${key}_TextField`
+				const valueKey = settings.LinkeContentDropdownValueField ? fieldKey(settings.LinkeContentDropdownValueField) : `${key}_ValueField`
+				return [
+					{ key, tsType: `ContentItem<${linkedType}>`, zodType: "linkedContentItemSchema", required },
+					{ key: textKey, tsType: "string", zodType: "z.string()", required: false },
+					{ key: valueKey, tsType: "string", zodType: "z.string()", required: false },
+				]
+			}
+
+			if (renderAs === "searchlistbox" || renderAs === "checkbox") {
+				addItemImports()
+				//several linked items, with their ids as a comma separated list alongside
+				return [
+					{ key, tsType: `ContentItem<${linkedType}>[]`, zodType: "z.array(linkedContentItemSchema)", required },
+					{ key: `${key}_ValueField`, tsType: "string", zodType: "z.string()", required: false },
+				]
+			}
+
+			//a linked content list - fetched separately with getContentList
+			return [{
+				key,
+				tsType: "{ referencename: string, fulllist?: boolean }",
+				zodType: "linkedContentListSchema",
+				required,
+				comment: linkedModel ? `a list of ${linkedModel} items` : undefined
+			}]
+		}
+
+		default:
+			console.warn(`  Unknown field type "${field.type}" for ${field.name} - typed as unknown`)
+			return [{ key, tsType: "unknown", zodType: "z.unknown()", required: false, comment: `unknown field type ${field.type}` }]
+	}
+}
+
+/**
+ * Generate the file for a single model: its interface and its validator.
+ */
+const generateModel = (model: ContentModel, modelNames: Set<string>) => {
+
+	const imports = new Set<string>()
+	const fields = model.fields.flatMap(field => mapField(field, modelNames, imports))
+
+	const name = interfaceName(model.referenceName)
+	const nextjsImports = ["ContentItem", "ImageField", "URLField"].filter(i => imports.has(i))
+	const fieldImports = ["FileField", "GalleryField"].filter(i => imports.has(i))
+	const modelImports = [...imports].filter(i => i.startsWith("./") && i !== `./${name}`).sort()
+
+	const zodHelpers = ["booleanFieldSchema", "imageFieldSchema", "fileFieldSchema", "galleryFieldSchema", "urlFieldSchema", "linkedContentItemSchema", "linkedContentListSchema"]
+		.filter(helper => fields.some(f => f.zodType.includes(helper)))
+
+	const lines: string[] = [HEADER]
+	lines.push(`import { z } from "zod"`)
+	if (nextjsImports.length > 0) lines.push(`import type { ${nextjsImports.join(", ")} } from "@agility/nextjs"`)
+	if (fieldImports.length > 0 || zodHelpers.length > 0) {
+		lines.push(`import { ${[...fieldImports.map(i => `type ${i}`), ...zodHelpers].join(", ")} } from "./fieldSchemas"`)
+	}
+	modelImports.forEach(i => lines.push(`import type { ${i.slice(2)} } from "${i}"`))
+	lines.push("")
+
+	lines.push(`/**`)
+	lines.push(` * ${model.displayName || model.referenceName} (\`${model.referenceName}\`)`)
+	lines.push(` */`)
+	lines.push(`export interface ${name} {`)
+	fields.forEach(f => {
+		if (f.comment) lines.push(`\t//${f.comment}`)
+		lines.push(`\t${f.key}${f.required ? "" : "?"}: ${f.tsType}${f.required ? "" : " | null"}`)
+	})
+	lines.push(`}`)
+	lines.push("")
+
+	lines.push(`export const ${schemaName(model.referenceName)} = z.object({`)
+	fields.forEach(f => {
+		lines.push(`\t${f.key}: ${f.zodType}${f.required ? "" : ".nullish()"},`)
+	})
+	lines.push(`}).passthrough()`)
+	lines.push("")
+
+	return { name, content: lines.join("\n") }
+}
+
+/**
+ * The shared field types and validators.
+ */
+const generateFieldSchemas = () => `${HEADER}
+import { z } from "zod"
+
+export interface FileField {
+	url: string
+	label: string
+	filesize: number
+}
+
+export interface GalleryField {
+	galleryid: number
+	[key: string]: unknown
+}
+
+export const booleanFieldSchema = z.union([z.boolean(), z.enum(["true", "false"])])
+
+export const imageFieldSchema = z.object({
+	url: z.string(),
+	label: z.string().nullish(),
+	height: z.number().nullish(),
+	width: z.number().nullish(),
+}).passthrough()
+
+export const fileFieldSchema = z.object({
+	url: z.string(),
+	label: z.string().nullish(),
+	filesize: z.number().nullish(),
+}).passthrough()
+
+export const galleryFieldSchema = z.object({
+	galleryid: z.number(),
+}).passthrough()
+
+export const urlFieldSchema = z.object({
+	href: z.string(),
+	target: z.string().nullish(),
+	text: z.string().nullish(),
+}).passthrough()
+
+//linked items are only checked one level deep - deeper levels depend on the contentLinkDepth of the request
+export const linkedContentItemSchema = z.union([
+	z.object({ contentID: z.number(), fields: z.record(z.any()) }).passthrough(),
+	z.object({ contentid: z.number() }).passthrough(),
+])
+
+export const linkedContentListSchema = z.object({
+	referencename: z.string(),
+	fulllist: z.boolean().nullish(),
+}).passthrough()
+`
+
+/**
+ * The index: every interface and validator, and the validators by model reference name.
+ */
+const generateIndex = (models: ContentModel[]) => {
+	const lines: string[] = [HEADER]
+	lines.push(`import type { ZodTypeAny } from "zod"`)
+	models.forEach(model => lines.push(`import { ${schemaName(model.referenceName)} } from "./${interfaceName(model.referenceName)}"`))
+	lines.push("")
+	lines.push(`export * from "./fieldSchemas"`)
+	models.forEach(model => lines.push(`export * from "./${interfaceName(model.referenceName)}"`))
+	lines.push("")
+	lines.push(`/**`)
+	lines.push(` * The validators for each model, by lower case reference name (the \`definitionName\` of a content item).`)
+	lines.push(` */`)
+	lines.push(`export const contentModelSchemas: { [referenceName: string]: ZodTypeAny } = {`)
+	models.forEach(model => lines.push(`\t"${model.referenceName.toLowerCase()}": ${schemaName(model.referenceName)},`))
+	lines.push(`}`)
+	lines.push("")
+	return lines.join("\n")
+}
+
+const doWork = () => {
+
+	console.log(`Agility Website => Generating types from ${path.relative(process.cwd(), INPUT_PATH)}`)
+
+	const models = readModels()
+	const modelNames = new Set(models.map(m => m.referenceName.toLowerCase()))
+
+	//everything in the output folder is generated, so clear out models that no longer exist
+	fs.mkdirSync(OUT_DIR, { recursive: true })
+	fs.readdirSync(OUT_DIR)
+		.filter(file => file.endsWith(".ts"))
+		.forEach(file => fs.unlinkSync(path.join(OUT_DIR, file)))
+
+	fs.writeFileSync(path.join(OUT_DIR, "fieldSchemas.ts"), generateFieldSchemas(), "utf8")
+
+	models.forEach(model => {
+		const { name, content } = generateModel(model, modelNames)
+		fs.writeFileSync(path.join(OUT_DIR, `${name}.ts`), content, "utf8")
+		console.log(`  ${name}`)
+	})
+
+	fs.writeFileSync(path.join(OUT_DIR, "index.ts"), generateIndex(models), "utf8")
+
+	console.log(`Agility Website => Generated ${models.length} content models into ${path.relative(process.cwd(), OUT_DIR)}`)
+}
+
+doWork()
@@ -1,4 +1,6 @@
 import { rebuildRedirectCache } from "@/lib/cms-content/rebuildRedirectCache"
+import { validateRedirects, type RedirectReport } from "@/lib/cms-content/validateRedirects"
+import { checkPageRevalidate } from "@/lib/cms/checkPageRevalidate"
 
 
 require("dotenv").config({
@@ -8,13 +10,39 @@ require("dotenv").config({
 const doWork = async () => {
 
 	console.log("Agility Website => Prebuild Started")
+
+	// *** check the page routes revalidate as often as configured ***
+	const revalidateProblems = await checkPageRevalidate()
+	if (revalidateProblems.length > 0) {
+		console.error(`Agility Website => Prebuild Failed: the page routes' revalidate doesn't match the cache policy\n${revalidateProblems.join("\n")}`)
+		process.exit(1)
+	}
+
 	// *** rebuild the redirects ***
 	await rebuildRedirectCache()
 
+	// *** check the redirects for loops and chains ***
+	let report: RedirectReport | null = null
+	try {
+		report = await validateRedirects()
+	} catch (error) {
+		//fail the build unless it's been explicitly allowed to go ahead with unchecked redirects
+		if (process.env.AGILITY_ALLOW_UNVALIDATED_REDIRECTS !== "true") {
+			console.error("Agility Website => Prebuild Failed: the redirects could not be validated (set AGILITY_ALLOW_UNVALIDATED_REDIRECTS=true to build anyway)", error)
+			process.exit(1)
+		}
+		console.warn("Agility Website => The redirects could not be validated - continuing because AGILITY_ALLOW_UNVALIDATED_REDIRECTS is set", error)
+	}
+
+	if (report && report.loops.length > 0) {
+		console.error(`Agility Website => Prebuild Failed: ${report.loops.length} redirect loop(s) found, see data/redirections-report.json`)
+		process.exit(1)
+	}
+
 
 	console.log("Agility Website => Prebuild Complete")
 
 }
 
 
-doWork()
\ No newline at end of file
+doWork()
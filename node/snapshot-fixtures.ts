@@ -0,0 +1,173 @@
+/**
+ * Snapshot the content from Agility CMS into `data/fixtures`, so the site can run with `AGILITY_OFFLINE=1`.
+ *
+ * Usage:
+ *   npm run snapshot-fixtures
+ *   npm run snapshot-fixtures -- --preview --lists=posts,audiences
+ *
+ * For every configured locale this saves the flat and nested sitemaps, every page, the content item of every
+ * component and dynamic page, and every content list those items link to (plus the lists the site fetches by name).
+ */
+import agility from "@agility/content-fetch"
+import fs from "fs"
+import path from "path"
+import { FIXTURES_DIR, getFixturePath } from "@/lib/cms/offlineClient"
+import type { SitemapNode } from "@/lib/types/SitemapNode"
+
+require("dotenv").config({
+	path: `.env.local`,
+})
+
+//the lists the site fetches by name rather than through a linked content field
+const KNOWN_LISTS = ["header", "footer", "settings", "posts", "categories", "tags", "authors", "audiences", "regions", "aisearchconfiguration"]
+
+//how many requests to make at once
+const BATCH_SIZE = 5
+
+//the most items the API returns per request
+const PAGE_SIZE = 250
+
+const args = process.argv.slice(2)
+const isPreview = args.includes("--preview")
+const extraLists = (args.find(a => a.startsWith("--lists="))?.split("=")[1] || "").split(",").map(l => l.trim().toLowerCase()).filter(Boolean)
+
+const agilityClient = agility.getApi({
+	guid: process.env.AGILITY_GUID,
+	apiKey: isPreview ? process.env.AGILITY_API_PREVIEW_KEY : process.env.AGILITY_API_FETCH_KEY,
+	isPreview
+})
+
+const locales = (process.env.AGILITY_LOCALES || "en-us").split(",").map(l => l.trim().toLowerCase()).filter(Boolean)
+const channelName = process.env.AGILITY_SITEMAP || "website"
+
+const writeFixture = (data: any, ...parts: (string | number)[]) => {
+	const fixturePath = getFixturePath(...parts)
+	fs.mkdirSync(path.dirname(fixturePath), { recursive: true })
+	fs.writeFileSync(fixturePath, JSON.stringify(data, null, 2), "utf8")
+}
+
+const inBatches = async <T>(values: T[], fn: (value: T) => Promise<void>) => {
+	for (let i = 0; i < values.length; i += BATCH_SIZE) {
+		await Promise.all(values.slice(i, i + BATCH_SIZE).map(fn))
+	}
+}
+
+/**
+ * Find the reference names of the content lists linked anywhere in a value (`{ referencename: "..." }`).
+ */
+const findReferenceNames = (value: any, found: Set<string>, depth = 0) => {
+	if (!value || typeof value !== "object" || depth > 10) return
+	if (typeof value.referencename === "string") found.add(value.referencename.toLowerCase())
+	Object.values(value).forEach(child => findReferenceNames(child, found, depth + 1))
+}
+
+const snapshotLocale = async (languageCode: string) => {
+
+	console.log(`Agility Website => Snapshotting ${languageCode}...`)
+
+	const sitemapFlat: { [path: string]: SitemapNode } = await agilityClient.getSitemapFlat({ channelName, languageCode })
+	if (!sitemapFlat) {
+		console.warn(`  No sitemap found for ${languageCode}`)
+		return { pages: 0, items: 0, lists: 0 }
+	}
+	writeFixture(sitemapFlat, languageCode, "sitemap-flat")
+	writeFixture(await agilityClient.getSitemapNested({ channelName, languageCode }), languageCode, "sitemap-nested")
+
+	//the pages, and the content items of their components and dynamic pages
+	const nodes = Object.values(sitemapFlat).filter(node => !node.isFolder && node.pageID > 0)
+	const pageIDs = [...new Set(nodes.map(node => node.pageID))]
+	const contentIDs = new Set<number>(nodes.map(node => node.contentID || 0).filter(id => id > 0))
+
+	await inBatches(pageIDs, async (pageID) => {
+		const page = await agilityClient.getPage({ pageID, languageCode, contentLinkDepth: 0 })
+		if (!page) return
+		writeFixture(page, languageCode, "pages", pageID)
+
+		Object.values(page.zones || {}).forEach((zone: any) => (zone || []).forEach(({ item }: any) => {
+			const contentID = item?.contentid || item?.contentID
+			if (contentID > 0) contentIDs.add(contentID)
+		}))
+	})
+
+	const referenceNames = new Set<string>([...KNOWN_LISTS, ...extraLists])
+	const savedItems = new Set<number>()
+
+	await inBatches([...contentIDs], async (contentID) => {
+		const item = await agilityClient.getContentItem({ contentID, languageCode })
+		if (!item) return
+		writeFixture(item, languageCode, "items", contentID)
+		savedItems.add(contentID)
+		findReferenceNames(item.fields, referenceNames)
+	})
+
+	//the lists, following any lists linked from their items (e.g. the header navigation)
+	const savedLists = new Set<string>()
+	while (savedLists.size < referenceNames.size) {
+		const pending = [...referenceNames].filter(name => !savedLists.has(name))
+
+		await inBatches(pending, async (referenceName) => {
+			savedLists.add(referenceName)
+
+			const items: any[] = []
+			let totalCount = 0
+			do {
+				const list = await agilityClient.getContentList({
+					referenceName,
+					languageCode,
+					skip: items.length,
+					take: PAGE_SIZE,
+					contentLinkDepth: 2,
+					expandAllContentLinks: true
+				})
+				if (!list || list.items.length === 0) break
+				items.push(...list.items)
+				totalCount = list.totalCount
+			} while (items.length < totalCount)
+
+			if (items.length === 0) return
+			writeFixture({ items, totalCount: items.length }, languageCode, "lists", referenceName)
+
+			items.forEach((item) => {
+				findReferenceNames(item.fields, referenceNames)
+
+				//list items can be fetched on their own too (e.g. for metadata)
+				if (!savedItems.has(item.contentID)) {
+					writeFixture(item, languageCode, "items", item.contentID)
+					savedItems.add(item.contentID)
+				}
+			})
+		})
+	}
+
+	console.log(`  ${pageIDs.length} pages, ${savedItems.size} items, ${savedLists.size} lists`)
+	return { pages: pageIDs.length, items: savedItems.size, lists: savedLists.size }
+}
+
+const doWork = async () => {
+
+	console.log(`Agility Website => Snapshotting ${isPreview ? "preview" : "live"} content into ${FIXTURES_DIR}`)
+
+	//start from a clean slate so deleted content doesn't linger
+	fs.rmSync(path.join(process.cwd(), FIXTURES_DIR), { recursive: true, force: true })
+
+	const counts: { [locale: string]: { pages: number, items: number, lists: number } } = {}
+	for (const locale of locales) {
+		counts[locale] = await snapshotLocale(locale)
+	}
+
+	writeFixture(await agilityClient.getUrlRedirections({ lastAccessDate: undefined }), "redirections")
+
+	writeFixture({
+		createdAt: new Date().toISOString(),
+		isPreview,
+		channelName,
+		locales: counts
+	}, "manifest")
+
+	console.log("Agility Website => Snapshot Complete")
+}
+
+doWork().catch((error) => {
+	console.error("Agility Website => Snapshot Failed", error)
+	process.exit(1)
+})
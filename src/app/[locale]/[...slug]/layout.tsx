@@ -0,0 +1,19 @@
+import type React from "react"
+import { PageChrome } from "@/components/site-chrome"
+import type { PageProps } from "@/lib/cms/getAgilityPage"
+
+interface PageLayoutProps {
+	children: React.ReactNode
+	params: PageProps["params"]
+}
+
+/**
+ * The header and footer for the page's template - here rather than in the locale layout, so templates can leave them out.
+ */
+export default function PageLayout({ children, params }: PageLayoutProps) {
+	return (
+		<PageChrome params={params}>
+			{children}
+		</PageChrome>
+	)
+}
@@ -1,7 +1,9 @@
-import { getPageTemplate } from "@/components/agility-pages"
+import { getPageTemplate, getPageTemplateRegistration } from "@/components/agility-pages"
+import { PageAlternates } from "@/components/page-alternates"
+import { getLocaleAlternates } from "@/lib/cms-content/getLocaleAlternates"
 import { type PageProps, getAgilityPage } from "@/lib/cms/getAgilityPage"
 import { getAgilityContext } from "@/lib/cms/getAgilityContext"
-import agilitySDK from "@agility/content-fetch"
+import { createAgilityClient } from "@/lib/cms/createAgilityClient"
 
 import type { Metadata, ResolvingMetadata } from "next"
 
@@ -10,7 +12,11 @@ import { type SitemapNode } from "@/lib/types/SitemapNode"
 import { notFound } from "next/navigation"
 import InlineError from "@/components/InlineError"
 import { locales } from "@/lib/i18n/config"
+import { setRenderPage } from "@/lib/cms/dependencyGraph"
+import { cacheTags, getFetchConfig } from "@/lib/cms/cachePolicy"
+import type { TemplateGlobalData } from "@/lib/utils/pageZoneUtils"
 
+//next.js needs a literal here - the prebuild checks it matches PAGE_ROUTE_REVALIDATE
 export const revalidate = 60
 export const runtime = "nodejs"
 
@@ -21,7 +27,7 @@ export async function generateStaticParams() {
 	const isDevelopmentMode = process.env.NODE_ENV === "development";
 	const isPreview = isDevelopmentMode;
 	const apiKey = isPreview ? process.env.AGILITY_API_PREVIEW_KEY : process.env.AGILITY_API_FETCH_KEY;
-	const agilityClient = agilitySDK.getApi({
+	const agilityClient = createAgilityClient({
 		guid: process.env.AGILITY_GUID,
 		apiKey,
 		isPreview,
@@ -31,12 +37,9 @@ export async function generateStaticParams() {
 
 	// Generate paths for each locale
 	for (const locale of locales) {
-		agilityClient.config.fetchConfig = {
-			next: {
-				tags: [`agility-sitemap-flat-${locale}`],
-				revalidate: 60,
-			},
-		};
+		agilityClient.config.fetchConfig = getFetchConfig({
+			tags: [cacheTags.sitemapFlat(locale)]
+		});
 
 		// Get the flat sitemap for this locale
 		const sitemap: { [path: string]: SitemapNode } = await agilityClient.getSitemapFlat({
@@ -90,18 +93,58 @@ export default async function Page({ params }: PageProps) {
 	const agilityData = await getAgilityPage({ params });
 	if (!agilityData.page) notFound();
 
+	//record what this page renders so the revalidate webhook can purge it when that content changes (not needed for draft mode)
+	const { locale, isPreview, isDevelopmentMode } = await getAgilityContext((await params).locale);
+	if (!isPreview || isDevelopmentMode) {
+		setRenderPage({
+			page: agilityData.page,
+			path: agilityData.sitemapNode.path,
+			locale,
+			contentID: agilityData.sitemapNode.contentID
+		});
+	}
+
 	const AgilityPageTemplate = getPageTemplate(agilityData.pageTemplateName || "");
+	const templateRegistration = getPageTemplateRegistration(agilityData.pageTemplateName || "");
 
 	//get the search params from global data (since they are added in getAgilityPage)
 	const globalSearchParams = agilityData.globalData?.["searchParams"] || {};
 
-	return (
+	//let the components know how the template lays them out
+	const templateGlobalData: TemplateGlobalData = {
+		pageTemplate: templateRegistration && {
+			name: templateRegistration.name,
+			chrome: templateRegistration.chrome !== false,
+			fullBleed: templateRegistration.fullBleed === true
+		}
+	};
+
+	const content = (
 		<div data-agility-page={agilityData.page?.pageID} data-agility-dynamic-content={agilityData.sitemapNode.contentID}>
 			{AgilityPageTemplate ? (
-				<AgilityPageTemplate {...agilityData} searchParams={globalSearchParams} />
+				<AgilityPageTemplate {...agilityData} globalData={{ ...agilityData.globalData, ...templateGlobalData }} searchParams={globalSearchParams} />
 			) : (
 				<InlineError message={`No template found for page template name: ${agilityData.pageTemplateName}`} />
 			)}
 		</div>
 	);
+
+	//templates without the header and footer don't have the language switcher either (see PageChrome in the layout)
+	if (templateRegistration?.chrome === false) return content;
+
+	//the same page in the other locales, for the language switcher
+	const alternates = await getLocaleAlternates({
+		pageID: agilityData.page.pageID,
+		contentID: agilityData.sitemapNode.contentID,
+		path: agilityData.sitemapNode.path,
+		locale,
+		channelName: agilityData.channelName || process.env.AGILITY_SITEMAP || "website"
+	});
+
+	return (
+		<>
+			{content}
+			<PageAlternates alternates={alternates} />
+		</>
+	);
 }
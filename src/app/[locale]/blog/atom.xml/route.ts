@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { getPostFeed, getPostFeedOptions } from "@/lib/cms-content/getPostFeed"
+
+/**
+ * The Atom feed of the latest blog posts, e.g. `/blog/atom.xml` or `/fr/blog/atom.xml?category=news&content=excerpt`
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ locale: string }> }) {
+
+	const { locale, sitemap } = await getAgilityContext((await params).locale)
+
+	const feed = await getPostFeed({ locale, sitemap, ...getPostFeedOptions(request.nextUrl.searchParams) })
+	if (!feed) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	return new Response(feed.atom1(), {
+		headers: {
+			"Content-Type": "application/atom+xml; charset=utf-8"
+		}
+	})
+}
@@ -0,0 +1,185 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { AgilityPic, renderHTML } from "@agility/nextjs"
+import { PageAlternates } from "@/components/page-alternates"
+import { Container } from "@/components/container"
+import { Heading, Subheading } from "@/components/text"
+import { Posts } from "@/components/agility-components/post-listing/Posts"
+import { Pagination } from "@/components/agility-components/post-listing/Pagination"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { getPostListing } from "@/lib/cms-content/getPostListing"
+import { type IAuthorProfile, getAuthorAlternates, getAuthorListing, getAuthorUrl } from "@/lib/cms-content/getAuthorListing"
+import { getHreflangLanguages } from "@/lib/cms-content/getLocaleAlternates"
+import { getHeaderContent } from "@/lib/cms-content/getHeaderContent"
+import { getSiteUrl, toAbsoluteUrl } from "@/lib/utils/siteUrl"
+import { parseSearchParamSegment } from "@/lib/utils/searchParamSegment"
+
+//next.js needs a literal here - the prebuild checks it matches PAGE_ROUTE_REVALIDATE
+export const revalidate = 60
+export const runtime = "nodejs"
+
+const postsPerPage = 5
+
+interface AuthorPageProps {
+	params: Promise<{ locale: string, slug: string[] }>
+}
+
+/**
+ * Load the author and the page of their posts from the route, e.g. `/blog/author/jane-doe` or `/blog/author/jane-doe?page=2`
+ * (the middleware encodes the query string as the last segment).
+ * @param params
+ * @returns null if there's no such author or page
+ */
+const loadAuthorPage = async (params: AuthorPageProps["params"]) => {
+	const { locale: localeParam, slug } = await params
+
+	const searchParams = slug.length === 2 ? parseSearchParamSegment(slug[1]) : {}
+	if (slug.length > 2 || !searchParams) return null
+
+	const pageParam = parseInt(searchParams.page || "", 10)
+	const page = !isNaN(pageParam) && pageParam > 0 ? pageParam : 1
+
+	const { locale, sitemap } = await getAgilityContext(localeParam)
+	const author = (await getAuthorListing({ locale })).find(a => a.slug === slug[0])
+	if (!author) return null
+
+	const { posts, totalCount } = await getPostListing({
+		locale, sitemap, skip: (page - 1) * postsPerPage, take: postsPerPage, author: author.slug
+	})
+	if (page > 1 && posts.length === 0) return null
+
+	return { locale, page, author, posts, totalCount }
+}
+
+/**
+ * The author's bio as plain text, for the meta description and structured data.
+ */
+const getBioText = (author: IAuthorProfile) => (author.bio || "").replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim()
+
+/**
+ * The author's profiles on other sites.
+ */
+const getProfileLinks = (author: IAuthorProfile) => [
+	{ label: "Website", url: author.websiteUrl },
+	{ label: "X", url: author.twitterUrl },
+	{ label: "LinkedIn", url: author.linkedInUrl },
+	{ label: "GitHub", url: author.gitHubUrl },
+].filter((link): link is { label: string, url: string } => !!link.url)
+
+/**
+ * Generate metadata for the author page
+ */
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+	const authorPage = await loadAuthorPage(params)
+	if (!authorPage) return {}
+
+	const { locale, page, author } = authorPage
+	const header = await getHeaderContent({ locale })
+	const alternates = await getAuthorAlternates({ authorID: author.contentID })
+	const authorUrl = getAuthorUrl(author.slug, locale)
+	const canonical = toAbsoluteUrl(page > 1 ? `${authorUrl}?page=${page}` : authorUrl)
+
+	return {
+		metadataBase: new URL(getSiteUrl()),
+		title: `${author.name} | ${header?.siteName || "Company"}`,
+		description: getBioText(author) || `Posts by ${author.name}`,
+		alternates: {
+			canonical,
+			//the other pages of an author's posts aren't translated individually
+			languages: page === 1 ? getHreflangLanguages(alternates) : undefined
+		},
+		openGraph: {
+			type: "profile",
+			url: canonical,
+			images: author.headShot ? [{ url: `${author.headShot.url}?format=auto&w=1200`, alt: author.headShot.label }] : undefined,
+		},
+		generator: `Agility CMS`,
+	}
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+	const authorPage = await loadAuthorPage(params)
+	if (!authorPage) notFound()
+
+	const { locale, page, author, posts, totalCount } = authorPage
+	const profileLinks = getProfileLinks(author)
+
+	//the same author in the other locales, for the language switcher
+	const alternates = await getAuthorAlternates({ authorID: author.contentID })
+
+	//schema.org structured data, so search engines can connect the author's posts and profiles
+	const bio = getBioText(author)
+	const personStructuredData = {
+		"@context": "https://schema.org",
+		"@type": "Person",
+		name: author.name,
+		url: toAbsoluteUrl(getAuthorUrl(author.slug, locale)),
+		...(author.title && { jobTitle: author.title }),
+		...(bio && { description: bio }),
+		...(author.headShot && { image: author.headShot.url }),
+		...(profileLinks.length > 0 && { sameAs: profileLinks.map(link => link.url) }),
+	}
+
+	return (
+		<>
+			<PageAlternates alternates={alternates} />
+			<script
+				type="application/ld+json"
+				dangerouslySetInnerHTML={{ __html: JSON.stringify(personStructuredData).replace(/</g, "\\u003c") }}
+			/>
+			<Container className="mt-16 pb-24" data-agility-component={author.contentID}>
+				<div className="flex flex-col gap-8 sm:flex-row sm:items-center">
+					{author.headShot && (
+						<AgilityPic
+							image={author.headShot}
+							fallbackWidth={192}
+							alt={author.headShot.label || author.name}
+							className="aspect-square size-24 shrink-0 rounded-full object-cover dark:grayscale"
+							data-agility-field="headShot"
+						/>
+					)}
+					<div>
+						<Subheading as="div" data-agility-field="title">
+							{author.title || "Author"}
+						</Subheading>
+						<Heading as="h1" className="mt-2" data-agility-field="name">
+							{author.name}
+						</Heading>
+					</div>
+				</div>
+
+				{author.bio && (
+					<div
+						data-agility-field="bio"
+						data-agility-html="true"
+						className="prose dark:prose-invert mt-10 max-w-2xl"
+						dangerouslySetInnerHTML={renderHTML(author.bio)}
+					/>
+				)}
+
+				{profileLinks.length > 0 && (
+					<ul className="mt-6 flex flex-wrap gap-x-6 gap-y-2">
+						{profileLinks.map(link => (
+							<li key={link.label}>
+								<a
+									href={link.url}
+									rel="me noopener"
+									target="_blank"
+									className="text-sm/6 font-medium text-gray-500 dark:text-gray-400 hover:text-gray-950 dark:hover:text-white transition-colors"
+								>
+									{link.label}
+								</a>
+							</li>
+						))}
+					</ul>
+				)}
+
+				<Posts page={page} posts={posts} />
+				<Pagination
+					{...{ page, totalPosts: totalCount, postsPerPage, languageCode: locale }}
+					basePath={`/blog/author/${author.slug}`}
+				/>
+			</Container>
+		</>
+	)
+}
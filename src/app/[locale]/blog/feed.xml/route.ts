@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { getPostFeed, getPostFeedOptions } from "@/lib/cms-content/getPostFeed"
+
+/**
+ * The RSS feed of the latest blog posts, e.g. `/blog/feed.xml` or `/fr/blog/feed.xml?category=news&content=excerpt`
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ locale: string }> }) {
+
+	const { locale, sitemap } = await getAgilityContext((await params).locale)
+
+	const feed = await getPostFeed({ locale, sitemap, ...getPostFeedOptions(request.nextUrl.searchParams) })
+	if (!feed) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	return new Response(feed.rss2(), {
+		headers: {
+			"Content-Type": "application/rss+xml; charset=utf-8"
+		}
+	})
+}
@@ -0,0 +1,20 @@
+import type React from "react"
+import { SiteChrome } from "@/components/site-chrome"
+
+interface BlogLayoutProps {
+	children: React.ReactNode
+	params: Promise<{ locale: string }>
+}
+
+/**
+ * The header and footer for the tag and author pages.
+ */
+export default async function BlogLayout({ children, params }: BlogLayoutProps) {
+	const { locale } = await params
+
+	return (
+		<SiteChrome locale={locale}>
+			{children}
+		</SiteChrome>
+	)
+}
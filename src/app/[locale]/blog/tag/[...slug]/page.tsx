@@ -0,0 +1,104 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { PageAlternates } from "@/components/page-alternates"
+import { Container } from "@/components/container"
+import { Heading, Subheading } from "@/components/text"
+import { Posts } from "@/components/agility-components/post-listing/Posts"
+import { Pagination } from "@/components/agility-components/post-listing/Pagination"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { getTaggedPosts } from "@/lib/cms-content/getPostIndex"
+import { getTagAlternates, getTagUrl } from "@/lib/cms-content/getTagListing"
+import { getHreflangLanguages } from "@/lib/cms-content/getLocaleAlternates"
+import { getHeaderContent } from "@/lib/cms-content/getHeaderContent"
+import { getSiteUrl, toAbsoluteUrl } from "@/lib/utils/siteUrl"
+import { parseSearchParamSegment } from "@/lib/utils/searchParamSegment"
+
+//next.js needs a literal here - the prebuild checks it matches PAGE_ROUTE_REVALIDATE
+export const revalidate = 60
+export const runtime = "nodejs"
+
+const postsPerPage = 5
+
+interface TagPageProps {
+	params: Promise<{ locale: string, slug: string[] }>
+}
+
+/**
+ * Load the tag and the page of its posts from the route, e.g. `/blog/tag/next-js` or `/blog/tag/next-js?page=2`
+ * (the middleware encodes the query string as the last segment).
+ * @param params
+ * @returns null if there's no such tag or page
+ */
+const loadTagPage = async (params: TagPageProps["params"]) => {
+	const { locale: localeParam, slug } = await params
+
+	const searchParams = slug.length === 2 ? parseSearchParamSegment(slug[1]) : {}
+	if (slug.length > 2 || !searchParams) return null
+
+	const pageParam = parseInt(searchParams.page || "", 10)
+	const page = !isNaN(pageParam) && pageParam > 0 ? pageParam : 1
+
+	const { locale, sitemap } = await getAgilityContext(localeParam)
+	const result = await getTaggedPosts({
+		sitemap, locale, tag: slug[0], skip: (page - 1) * postsPerPage, take: postsPerPage
+	})
+	if (!result || (page > 1 && result.posts.length === 0)) return null
+
+	return { locale, page, ...result }
+}
+
+/**
+ * Generate metadata for the tag page
+ */
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+	const tagPage = await loadTagPage(params)
+	if (!tagPage) return {}
+
+	const { locale, page, tag } = tagPage
+	const header = await getHeaderContent({ locale })
+	const alternates = await getTagAlternates({ tagID: tag.contentID })
+	const tagUrl = getTagUrl(tag.slug, locale)
+	const canonical = toAbsoluteUrl(page > 1 ? `${tagUrl}?page=${page}` : tagUrl)
+
+	return {
+		metadataBase: new URL(getSiteUrl()),
+		title: `${tag.title} | ${header?.siteName || "Company"}`,
+		description: `Posts tagged ${tag.title}`,
+		alternates: {
+			canonical,
+			//the other pages of a tag aren't translated individually
+			languages: page === 1 ? getHreflangLanguages(alternates) : undefined
+		},
+		openGraph: {
+			url: canonical,
+		},
+		generator: `Agility CMS`,
+	}
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+	const tagPage = await loadTagPage(params)
+	if (!tagPage) notFound()
+
+	const { locale, page, tag, posts, totalCount } = tagPage
+
+	//the same tag in the other locales, for the language switcher
+	const alternates = await getTagAlternates({ tagID: tag.contentID })
+
+	return (
+		<>
+			<PageAlternates alternates={alternates} />
+			<Container className="mt-16 pb-24">
+				<Subheading as="div">Tag</Subheading>
+				<Heading as="h1" className="mt-2">
+					{tag.title}
+				</Heading>
+				<Posts page={page} posts={posts} />
+				<Pagination
+					{...{ page, totalPosts: totalCount, postsPerPage, languageCode: locale }}
+					basePath={`/blog/tag/${tag.slug}`}
+				/>
+			</Container>
+		</>
+	)
+}
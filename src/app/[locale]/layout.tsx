@@ -1,23 +1,20 @@
-import { Container } from '@/components/container'
-import { Navbar } from '@/components/header/navbar'
-
 import type React from 'react'
 
-import { getHeaderContent } from "@/lib/cms-content/getHeaderContent"
 import { getAgilityContext } from '@/lib/cms/getAgilityContext'
 
-import { getFooterContent } from '@/lib/cms-content/getFooterContent'
-import { Footer } from '@/components/footer/footer'
 import PreviewBar from '@/components/preview-bar'
 import { getAudienceListing } from '@/lib/cms-content/getAudienceListing'
 import { getRegionListing } from '@/lib/cms-content/getRegionListing'
 import { Suspense } from 'react'
 import FloatingAISearch from '@/components/ai-search/FloatingAISearch'
 import { getAISearchConfig } from '@/lib/cms-content/getAISearchConfig'
-import { locales, defaultLocale } from '@/lib/i18n/config'
 import { getSettings } from '@/lib/cms-content/getSettings'
 import { GoogleAnalytics } from '@next/third-parties/google'
 import { AnalyticsProvider } from '@/components/analytics'
+import { RootHtml, rootMetadata } from '@/components/root-html'
+import { getLocaleMetadata } from '@/lib/i18n/localeMetadata'
+
+export const metadata = rootMetadata
 
 interface LayoutProps {
   children: React.ReactNode
@@ -31,10 +28,6 @@ export default async function LocaleLayout({
   const { locale } = await params
   const { isDevelopmentMode, isPreview } = await getAgilityContext(locale)
 
-  // get the header content
-  const header = await getHeaderContent({ locale })
-  const footer = await getFooterContent({ locale })
-
   const audiences = await getAudienceListing({ locale, skip: 0, take: 10 })
   const regions = await getRegionListing({ locale, skip: 0, take: 10 })
 
@@ -42,17 +35,12 @@ export default async function LocaleLayout({
   const settings = await getSettings({ locale })
   const gaId = settings?.googleAnalyticsID || null
 
+  const { hreflang, dir } = getLocaleMetadata(locale)
+
   return (
-    <>
-      <Container>
-        {header &&
-          <Navbar header={header} locale={locale} />
-        }
-      </Container>
+    <RootHtml lang={hreflang} dir={dir}>
+      {/* the header and footer are rendered by the pages' layouts, since page templates can leave them out */}
       {children}
-      {footer && header &&
-        <Footer footerData={footer} logo={header.logo} siteName={header.siteName} locale={locale} locales={locales} defaultLocale={defaultLocale} />
-      }
 
       {/* Floating AI Search */}
       {aiConfig.showAISearch &&
@@ -75,6 +63,6 @@ export default async function LocaleLayout({
           {...{ isDevelopmentMode, isPreview, audiences, regions }}
         />
       </Suspense>
-    </>
+    </RootHtml>
   )
 }
\ No newline at end of file
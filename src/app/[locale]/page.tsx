@@ -1,8 +1,21 @@
+import { PageChrome } from "@/components/site-chrome"
+import type { PageProps } from "@/lib/cms/getAgilityPage"
+import SlugPage from "./[...slug]/page"
+
 /**
  * the root page - just pull exports from the main slug...
  */
 export { generateMetadata } from "./[...slug]/page"
-export { default } from "./[...slug]/page"
 
+//the slug's layout isn't used for the root page, so the header and footer are added here
+export default function Page(props: PageProps) {
+	return (
+		<PageChrome params={props.params}>
+			<SlugPage {...props} />
+		</PageChrome>
+	)
+}
+
+//next.js needs a literal here - the prebuild checks it matches PAGE_ROUTE_REVALIDATE
 export const revalidate = 60
-export const runtime = "nodejs"
\ No newline at end of file
+export const runtime = "nodejs"
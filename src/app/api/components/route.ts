@@ -0,0 +1,34 @@
+import { moduleRegistry } from "@/components/agility-components";
+import { templateRegistry } from "@/components/agility-pages";
+import { contentModelSchemas } from "@/lib/types/generated";
+import { NextResponse } from "next/server";
+
+/**
+ * List the registered components and page templates, to compare against the models defined in Agility.
+ * Each component notes whether its content model is in the generated types (`npm run generate-types`).
+ * Only available in development.
+ */
+export async function GET() {
+
+	if (process.env.NODE_ENV !== "development") {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	const components = moduleRegistry.map(({ name, contentModel, rendering, loading }) => ({
+		name,
+		contentModel,
+		rendering,
+		hasLoadingSkeleton: loading !== undefined,
+		hasGeneratedTypes: contentModel.toLowerCase() in contentModelSchemas
+	}))
+
+	return NextResponse.json({
+		components,
+		templates: templateRegistry.map(({ name, zones, chrome = true, fullBleed = false }) => ({ name, zones, chrome, fullBleed })),
+		//component models the registry expects that aren't in the generated types
+		modelsWithoutTypes: components.filter(c => !c.hasGeneratedTypes).map(c => c.contentModel)
+	}, {
+		headers: { "Cache-Control": "no-store" }
+	})
+
+}
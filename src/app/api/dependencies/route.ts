@@ -0,0 +1,48 @@
+import { getDependencyGraph, getDependentPages } from "@/lib/cms/dependencyGraph";
+import { hasSecurityKey } from "@/lib/cms/verifyRevalidateRequest";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Debug the dependency graph: which pages depend on a content item or list.
+ * Open in development, otherwise requires the `AGILITY_SECURITY_KEY` as the `key` query param or `x-agility-security-key` header.
+ * @param request `?contentID=123`, `?referenceName=testimonials` and optionally `&locale=en-us` - with neither, returns the whole graph
+ */
+export async function GET(request: NextRequest) {
+
+	const searchParams = request.nextUrl.searchParams
+
+	if (process.env.NODE_ENV !== "development" && !hasSecurityKey(request)) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	const contentIDStr = searchParams.get("contentID")
+	const referenceName = searchParams.get("referenceName") || undefined
+	const locale = searchParams.get("locale") || undefined
+
+	const contentID = contentIDStr ? parseInt(contentIDStr) : undefined
+	if (contentIDStr && (contentID === undefined || isNaN(contentID))) {
+		return NextResponse.json({ message: "Invalid contentID" }, { status: 400 })
+	}
+
+	if (contentID === undefined && !referenceName) {
+		return NextResponse.json(await getDependencyGraph(), {
+			headers: { "Cache-Control": "no-store" }
+		})
+	}
+
+	const pages = await getDependentPages({ contentID, referenceName, locale })
+
+	return NextResponse.json({
+		contentID,
+		referenceName,
+		locale,
+		pages: pages.map(page => ({
+			...page,
+			//the modules on the page that render this item, or link to this list
+			modules: page.modules.filter(m => m.contentID === contentID || (referenceName && m.referenceNames.includes(referenceName.toLowerCase())))
+		}))
+	}, {
+		headers: { "Cache-Control": "no-store" }
+	})
+
+}
@@ -0,0 +1,26 @@
+import { getCachePolicy } from "@/lib/cms/cachePolicy";
+import { hasSecurityKey } from "@/lib/cms/verifyRevalidateRequest";
+import { defaultLocale, isValidLocale, locales } from "@/lib/i18n/config";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Show the cache policy: the fetch and page durations, the per reference name overrides, and the cache tags.
+ * Open in development, otherwise requires the `AGILITY_SECURITY_KEY` as the `key` query param or `x-agility-security-key` header.
+ * @param request optionally `?locale=en-us` for the example tags
+ */
+export async function GET(request: NextRequest) {
+
+	if (process.env.NODE_ENV !== "development" && !hasSecurityKey(request)) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	const locale = request.nextUrl.searchParams.get("locale") || defaultLocale
+	if (!isValidLocale(locale, locales)) {
+		return NextResponse.json({ message: "Invalid locale" }, { status: 400 })
+	}
+
+	return NextResponse.json(getCachePolicy(locale), {
+		headers: { "Cache-Control": "no-store" }
+	})
+
+}
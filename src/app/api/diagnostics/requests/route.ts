@@ -0,0 +1,19 @@
+import { getRequestTimings } from "@/lib/cms/contentClient";
+import { hasSecurityKey } from "@/lib/cms/verifyRevalidateRequest";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Show the timing of the most recent Agility requests made by this instance, and how many were deduplicated.
+ * Open in development, otherwise requires the `AGILITY_SECURITY_KEY` as the `key` query param or `x-agility-security-key` header.
+ */
+export async function GET(request: NextRequest) {
+
+	if (process.env.NODE_ENV !== "development" && !hasSecurityKey(request)) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	return NextResponse.json(getRequestTimings(), {
+		headers: { "Cache-Control": "no-store" }
+	})
+
+}
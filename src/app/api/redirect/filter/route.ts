@@ -0,0 +1,25 @@
+import { REDIRECT_FILTER_KEY } from "@/lib/cms-content/rebuildRedirectCache";
+import { getDataStore } from "@/lib/cms/getDataStore";
+import { NextResponse } from "next/server";
+
+/**
+ * Get the current redirect bloom filter from the data store.
+ * Middleware polls this every few seconds so new redirections are picked up without a rebuild.
+ */
+export async function GET() {
+
+	const filterStr = await getDataStore().get(REDIRECT_FILTER_KEY)
+
+	if (!filterStr) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	return new Response(filterStr, {
+		status: 200,
+		headers: {
+			"Content-Type": "application/json",
+			"Cache-Control": "no-store"
+		}
+	})
+
+}
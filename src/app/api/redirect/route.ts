@@ -0,0 +1,25 @@
+import { checkRedirect } from "@/lib/cms-content/checkRedirect";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Look up a redirection in the full list of redirections.
+ * Called by middleware when the bloom filter reports a probable match,
+ * so the full list never has to be bundled with middleware.
+ */
+export async function GET(req: NextRequest) {
+
+	const searchParams = req.nextUrl.searchParams
+	const path = searchParams.get("path")
+	const search = searchParams.get("search") || undefined
+
+	if (path) {
+		const redirection = await checkRedirect({ path, search })
+		if (redirection) {
+			return NextResponse.json(redirection)
+		}
+	}
+
+	//if we get here, it's a false positive from the bloom filter (or no path was given)
+	return NextResponse.json({ message: "Not Found" }, { status: 404 })
+
+}
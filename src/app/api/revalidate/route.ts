@@ -1,26 +1,64 @@
-
-
 import { revalidatePath, revalidateTag } from "next/cache";
 import { NextRequest, NextResponse } from "next/server";
-import agilitySDK from "@agility/content-fetch"
+import { createAgilityClient } from "@/lib/cms/createAgilityClient";
 import type { SitemapNode } from "@/lib/types/SitemapNode";
-
-interface IRevalidateRequest {
-	state: string,
-	instanceGuid: string
-	languageCode?: string
-	referenceName?: string
-	contentID?: number
-	contentVersionID?: number
-	pageID?: number
-	pageVersionID?: number
-	changeDateUTC?: string
+import { rebuildRedirectCache } from "@/lib/cms-content/rebuildRedirectCache";
+import { verifyRevalidateRequest } from "@/lib/cms/verifyRevalidateRequest";
+import { getPagesWithContent } from "@/lib/cms-content/getPagesWithContent";
+import { getDependencyGraph, getDependentPages } from "@/lib/cms/dependencyGraph";
+import { cacheTags } from "@/lib/cms/cachePolicy";
+import { defaultLocale, isValidLocale, locales } from "@/lib/i18n/config";
+import { getLocaleRoutePath, localizeUrl } from "@/lib/i18n/localizeUrl";
+
+//how many pages to check for a content item when there's no dependency graph to go on
+const MAX_FALLBACK_PAGES = 50
+
+interface IRevalidateResponse {
+	revalidated: boolean
+	tags: string[]
+	paths: string[]
+	redirectsRefreshed: boolean
+	message?: string
 }
 
 export async function POST(req: NextRequest) {
 
-	//parse the body
-	const data = await req.json() as IRevalidateRequest
+	//authenticate and parse the body
+	const verified = await verifyRevalidateRequest(req)
+	if (!verified.success) {
+		console.warn("Rejected revalidation request:", verified.error)
+		return NextResponse.json({ revalidated: false, error: verified.error }, { status: verified.status })
+	}
+
+	const data = verified.data
+
+	const result: IRevalidateResponse = {
+		revalidated: false,
+		tags: [],
+		paths: [],
+		redirectsRefreshed: false
+	}
+
+	const invalidateTag = (tag: string) => {
+		revalidateTag(tag)
+		result.tags.push(tag)
+	}
+
+	const invalidatePath = (path: string) => {
+		if (result.paths.includes(path)) return
+		revalidatePath(path)
+		result.paths.push(path)
+	}
+
+	//the webhook is for a single locale - fall back to the default locale if it's missing or not one of ours
+	const languageCode = data.languageCode && isValidLocale(data.languageCode, locales) ? data.languageCode : defaultLocale
+
+	//revalidate a sitemap path as both the route middleware rewrites to (/{locale}/path)
+	//and the public url (unprefixed for the default locale)
+	const invalidatePagePath = (path: string) => {
+		invalidatePath(getLocaleRoutePath(path, languageCode))
+		invalidatePath(localizeUrl(path, languageCode))
+	}
 
 
 	//only process publish events
@@ -30,23 +68,20 @@ export async function POST(req: NextRequest) {
 			[path: string]: SitemapNode
 		} = {}
 
-		//grab the sitemap flat so we can revalidate the full path if needed
-		if (data.contentID || data.pageID) {
-			const apiKey = process.env.AGILITY_API_FETCH_KEY
-
-			const agilityClient = agilitySDK.getApi({
-				guid: process.env.AGILITY_GUID,
-				apiKey
-			})
+		const apiKey = process.env.AGILITY_API_FETCH_KEY
 
-			const languageCode = process.env.AGILITY_LOCALES || "en-us"
-
-			//don't cache the sitemap here... we want to get the latest
-			agilityClient.config.fetchConfig = {
-				cache: "no-store"
-			}
+		const agilityClient = createAgilityClient({
+			guid: process.env.AGILITY_GUID,
+			apiKey
+		})
 
+		//don't cache the sitemap or pages here... we want to get the latest
+		agilityClient.config.fetchConfig = {
+			cache: "no-store"
+		}
 
+		//grab the sitemap flat for this locale so we can revalidate the full path if needed
+		if (data.contentID || data.pageID) {
 			sitemapFlat = await agilityClient.getSitemapFlat({
 				channelName: process.env.AGILITY_SITEMAP || "website",
 				languageCode
@@ -56,36 +91,71 @@ export async function POST(req: NextRequest) {
 		//revalidate the correct tags based on what changed
 		if (data.referenceName) {
 			//content item change
-			const itemTag = `agility-content-${data.referenceName.toLowerCase()}-${data.languageCode}`
-			const listTag = `agility-content-${data.contentID}-${data.languageCode}`
-			revalidateTag(itemTag)
-			revalidateTag(listTag)
+			const listTag = cacheTags.contentList(data.referenceName, languageCode)
+			invalidateTag(listTag)
 
-			console.info("Revalidating content tags:", itemTag, listTag)
+			if (data.contentID) {
+				const itemTag = cacheTags.contentItem(data.contentID, languageCode)
+				invalidateTag(itemTag)
+			}
+
+			console.info("Revalidating content tags:", result.tags)
 
 			//grab the sitemap and check if this content is in there so we can revalidate a full path
 			if (sitemapFlat) {
 				const sitemapNode = Object.values(sitemapFlat).find(s => s.contentID === data.contentID)
 				if (sitemapNode) {
 					const path = sitemapNode.path
-					revalidatePath(path)
+					invalidatePagePath(path)
 					console.info("Revalidating path:", path)
 
+					//the item has its own page, so its last modified date in sitemap.xml has changed too
+					invalidateTag(cacheTags.sitemapEntries())
 				}
 			}
 
+			//also revalidate every page that rendered this item or its list, from the dependency graph recorded at render time
+			const graph = await getDependencyGraph()
+			const dependentPages = await getDependentPages({
+				contentID: data.contentID,
+				referenceName: data.referenceName,
+				locale: languageCode,
+				graph
+			})
+
+			dependentPages.forEach((page) => {
+				invalidatePagePath(page.path)
+				console.info("Revalidating dependent path:", page.path)
+			})
+
+			//nothing recorded for this locale at all (e.g. no KV store yet) - fall back to scanning a limited number of pages for this item as a component
+			const hasGraph = Object.values(graph.pages).some(page => page.locale === languageCode)
+			if (!hasGraph && data.contentID) {
+				const pagesWithContent = await getPagesWithContent({
+					agilityClient,
+					sitemapFlat,
+					contentID: data.contentID,
+					languageCode,
+					maxPages: MAX_FALLBACK_PAGES
+				})
+
+				pagesWithContent.forEach((node) => {
+					invalidatePagePath(node.path)
+					console.info("Revalidating path with component:", node.path)
+				})
+			}
 
 		} else if (data.pageID !== undefined && data.pageID > 0) {
 			//page change
-			const pageTag = `agility-page-${data.pageID}-${data.languageCode}`
-			revalidateTag(pageTag)
+			const pageTag = cacheTags.page(data.pageID, languageCode)
+			invalidateTag(pageTag)
 
 
 			//also revalidate the sitemaps
-			const sitemapTagFlat = `agility-sitemap-flat-${data.languageCode}`
-			const sitemapTagNested = `agility-sitemap-nested-${data.languageCode}`
-			revalidateTag(sitemapTagFlat)
-			revalidateTag(sitemapTagNested)
+			const sitemapTagFlat = cacheTags.sitemapFlat(languageCode)
+			const sitemapTagNested = cacheTags.sitemapNested(languageCode)
+			invalidateTag(sitemapTagFlat)
+			invalidateTag(sitemapTagNested)
 
 			console.info("Revalidating page and sitemap tags:", pageTag, sitemapTagFlat, sitemapTagNested)
 
@@ -93,26 +163,33 @@ export async function POST(req: NextRequest) {
 				const sitemapNode = Object.values(sitemapFlat).find(s => s.pageID === data.pageID)
 				if (sitemapNode) {
 					const path = sitemapNode.path
-					revalidatePath(path)
+					invalidatePagePath(path)
 					console.info("Revalidating path:", path)
 
 				}
 			}
+
+			//dynamic pages share their page definition with the page, so they need revalidating too
+			const graph = await getDependencyGraph()
+			Object.values(graph.pages)
+				.filter(page => page.pageID === data.pageID && page.locale === languageCode)
+				.forEach(page => invalidatePagePath(page.path))
 		}
 	} else if (data.contentID === undefined && data.pageID === undefined) {
 		//if no content or page id is provided, it's for a URL redirection
-		//trigger the rebuild hook for netlify's rebuild...
-		const hookUrl = process.env.BUILD_HOOK_URL
-		if (hookUrl) {
-			await fetch(hookUrl, {
-				method: 'POST'
-			})
-		}
+		//refresh the data store with the changes since the last access date - middleware picks them up within seconds
+		const refreshed = await rebuildRedirectCache({ forceUpdate: false })
+		console.info("Refreshed redirections:", refreshed)
+		result.redirectsRefreshed = refreshed !== null
+	} else {
+		result.message = `Ignored ${data.state} event`
 	}
 
-	return new Response(`OK`, {
+	result.revalidated = result.tags.length > 0 || result.paths.length > 0 || result.redirectsRefreshed
+
+	return NextResponse.json(result, {
 		status: 200
 	})
 
 
-}
\ No newline at end of file
+}
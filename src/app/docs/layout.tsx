@@ -1,14 +1,19 @@
 import { getDocsTree } from '@/lib/docs/getDocsFiles'
 import { type ReactNode } from 'react'
 import { DocsLayoutClient } from './DocsLayoutClient'
+import { RootHtml, rootMetadata } from '@/components/root-html'
+
+export const metadata = rootMetadata
 
 export default function DocsLayout({ children }: { children: ReactNode }) {
 	const tree = getDocsTree()
 
 	return (
-		<DocsLayoutClient tree={tree}>
-			{children}
-		</DocsLayoutClient>
+		<RootHtml lang="en" dir="ltr">
+			<DocsLayoutClient tree={tree}>
+				{children}
+			</DocsLayoutClient>
+		</RootHtml>
 	)
 }
 
@@ -0,0 +1,31 @@
+import { getSitemapEntries } from "@/lib/cms-content/getSitemapEntries"
+import { getDocsSitemapEntries } from "@/lib/docs/getDocsSitemapEntries"
+import { chunkSitemapEntries, getLatestModified, renderSitemapIndex, renderUrlSet, SITEMAP_MAX_URLS } from "@/lib/utils/sitemapXml"
+import { toAbsoluteUrl } from "@/lib/utils/siteUrl"
+
+export const revalidate = 3600
+
+/**
+ * The sitemap for every page in every locale, from the Agility sitemaps (plus the /docs pages).
+ * Once there are more than 50,000 URLs, this becomes a sitemap index pointing to `/sitemap/0.xml`, `/sitemap/1.xml`, etc.
+ */
+export async function GET() {
+
+	const entries = [
+		...await getSitemapEntries({ channelName: process.env.AGILITY_SITEMAP || "website" }),
+		...getDocsSitemapEntries()
+	]
+
+	const xml = entries.length > SITEMAP_MAX_URLS
+		? renderSitemapIndex(chunkSitemapEntries(entries).map((chunk, index) => ({
+			url: toAbsoluteUrl(`/sitemap/${index}.xml`),
+			lastModified: getLatestModified(chunk)
+		})))
+		: renderUrlSet(entries)
+
+	return new Response(xml, {
+		headers: {
+			"Content-Type": "application/xml; charset=utf-8"
+		}
+	})
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getSitemapEntries } from "@/lib/cms-content/getSitemapEntries"
+import { getDocsSitemapEntries } from "@/lib/docs/getDocsSitemapEntries"
+import { chunkSitemapEntries, renderUrlSet } from "@/lib/utils/sitemapXml"
+
+export const revalidate = 3600
+
+/**
+ * One part of the sitemap, e.g. `/sitemap/0.xml` - only used once the sitemap is split up behind the index at `/sitemap.xml`.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+
+	const { id } = await params
+	if (!/^\d+\.xml$/.test(id)) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	const entries = [
+		...await getSitemapEntries({ channelName: process.env.AGILITY_SITEMAP || "website" }),
+		...getDocsSitemapEntries()
+	]
+	const chunks = chunkSitemapEntries(entries)
+	const chunk = chunks[parseInt(id)]
+
+	//the sitemap isn't split, or there's no such part
+	if (chunks.length < 2 || !chunk) {
+		return NextResponse.json({ message: "Not Found" }, { status: 404 })
+	}
+
+	return new Response(renderUrlSet(chunk), {
+		headers: {
+			"Content-Type": "application/xml; charset=utf-8"
+		}
+	})
+}
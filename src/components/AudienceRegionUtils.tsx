@@ -1,8 +1,7 @@
 "use client"
 
 import { useAudienceRegionParams } from '@/lib/hooks/useAudienceRegionParams'
-import type { IAudience } from '@/lib/types/IAudience'
-import type { IRegion } from '@/lib/types/IRegion'
+import type { IAudience, IRegion } from '@/lib/types/generated'
 
 interface AudienceRegionIndicatorProps {
   audiences?: IAudience[]
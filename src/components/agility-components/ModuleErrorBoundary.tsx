@@ -0,0 +1,62 @@
+"use client"
+
+import { Component, type ErrorInfo, type ReactNode } from "react"
+import { analytics } from "@/lib/analytics"
+
+interface Props {
+	//the name of the component, for the placeholder and the analytics event
+	moduleName: string
+	contentID?: number
+	//show the error in the placeholder (development and preview)
+	showDetails: boolean
+	children: ReactNode
+}
+
+interface State {
+	error: Error | null
+}
+
+/**
+ * Catches an error thrown while rendering a single component, so the rest of the page still renders.
+ * The component is replaced with an inline placeholder and an ERROR_OCCURRED event is tracked with its content ID.
+ */
+export class ModuleErrorBoundary extends Component<Props, State> {
+	state: State = { error: null }
+
+	static getDerivedStateFromError(error: Error): State {
+		return { error }
+	}
+
+	componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+		const { moduleName, contentID } = this.props
+		console.error(`Agility: Error rendering ${moduleName} (${contentID})`, error, errorInfo.componentStack)
+
+		analytics.trackError(error, {
+			component: moduleName,
+			contentID,
+			//server errors are replaced with a digest in production, which matches the server logs
+			digest: (error as Error & { digest?: string }).digest,
+		})
+	}
+
+	render() {
+		const { error } = this.state
+		const { moduleName, contentID, showDetails, children } = this.props
+
+		if (!error) return children
+
+		if (!showDetails) {
+			//in production mode, just leave a gap where the component would be
+			return <div data-agility-component={contentID} data-agility-component-error={moduleName} aria-hidden="true" />
+		}
+
+		return (
+			<section className="relative my-6" data-agility-component={contentID} data-agility-component-error={moduleName}>
+				<div className="max-w-2xl mx-auto px-8 py-6 bg-red-50 rounded-md border border-red-200">
+					<div className="text-base font-medium text-red-800">{moduleName} ({contentID}) could not be rendered</div>
+					<pre className="mt-2 text-xs text-red-700 whitespace-pre-wrap">{error.message}</pre>
+				</div>
+			</section>
+		)
+	}
+}
@@ -0,0 +1,39 @@
+import { Container } from "../container"
+
+/**
+ * A placeholder for a section of text (heading, lead and a few lines) shown while a component's code loads.
+ */
+export const ModuleSkeleton = () => {
+	return (
+		<section className="pt-20" aria-busy="true">
+			<Container>
+				<div className="space-y-6">
+					<div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-32 animate-pulse" />
+					<div className="h-12 bg-gray-200 dark:bg-gray-700 rounded-lg w-3/5 animate-pulse" />
+					<div className="space-y-3">
+						<div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse" />
+						<div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-5/6 animate-pulse" />
+					</div>
+				</div>
+			</Container>
+		</section>
+	)
+}
+
+/**
+ * A placeholder for a grid of cards (posts, testimonials, logos) shown while a component's code loads.
+ */
+export const CardGridSkeleton = () => {
+	return (
+		<section className="pt-20" aria-busy="true">
+			<Container>
+				<div className="h-12 bg-gray-200 dark:bg-gray-700 rounded-lg w-2/5 animate-pulse" />
+				<div className="mt-10 grid gap-8 sm:grid-cols-2 lg:grid-cols-3">
+					{[0, 1, 2].map((i) => (
+						<div key={i} className="aspect-[4/3] bg-gray-200 dark:bg-gray-700 rounded-2xl animate-pulse" />
+					))}
+				</div>
+			</Container>
+		</section>
+	)
+}
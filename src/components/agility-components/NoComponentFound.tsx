@@ -2,22 +2,52 @@ import { type UnloadedModuleProps } from "@agility/nextjs"
 
 
 import { getContentItem } from "@/lib/cms/getContentItem"
-import OutputContentItem from "./output-content-item/OutputContentItem"
+import { getAgilityEditorUrl } from "@/lib/cms/getAgilityEditorUrl"
+import { getComponentPosition } from "@/lib/utils/pageZoneUtils"
+import { getClosestMatch } from "@/lib/utils/closestMatch"
+import { scaffoldComponent } from "@/lib/utils/scaffoldComponent"
+import ComponentInspector from "./output-content-item/ComponentInspector"
+import { moduleRegistry } from "./registry"
 
-const NoComponentFound = async ({ module, languageCode, isDevelopmentMode, isPreview }: UnloadedModuleProps) => {
+const NoComponentFound = async ({ module, page, sitemapNode, languageCode, isDevelopmentMode, isPreview }: UnloadedModuleProps) => {
+	const position = getComponentPosition(module, page)
+	const moduleName = position?.moduleName || ""
+
+	if (!isDevelopmentMode && !isPreview) {
+		//in production mode, leave the component out and keep on truckin' after logging a warning
+		console.warn(JSON.stringify({
+			level: "warn",
+			message: "Agility: No component found",
+			moduleName,
+			contentID: module.contentid,
+			pageID: page?.pageID,
+			path: sitemapNode?.path,
+			zone: position?.zone,
+			index: position?.index,
+			languageCode,
+		}))
+		return null
+	}
+
+	//in development mode, show what the component needs to be wired up
 	const contentItem = await getContentItem<any>({
 		contentID: module.contentid,
 		languageCode,
 	})
 
-	if (isDevelopmentMode || isPreview) {
-		//in development mode, show the error
-		return <OutputContentItem contentItem={contentItem} />
-	} else {
-		//in production mode, just keep on truckin' after throwing a warning in the log
-		console.warn("Agility: No Component form for: ", contentItem?.properties.definitionName)
-		return null
-	}
+	const registeredNames = moduleRegistry.map((registration) => registration.name)
+
+	return (
+		<ComponentInspector
+			moduleName={moduleName}
+			contentID={module.contentid}
+			contentItem={contentItem || null}
+			position={position && { zone: position.zone, index: position.index }}
+			editorUrl={page ? getAgilityEditorUrl({ locale: languageCode, pageID: page.pageID, contentID: module.contentid }) : null}
+			suggestion={moduleName ? getClosestMatch(moduleName, registeredNames) : null}
+			scaffold={contentItem ? scaffoldComponent({ moduleName: moduleName || contentItem.properties.definitionName, contentItem }) : null}
+		/>
+	)
 }
 
 export default NoComponentFound
@@ -4,7 +4,7 @@ import { Container } from "../container"
 import { Gradient } from "../gradient"
 import { getContentItem } from "@/lib/cms/getContentItem"
 import { getContentList } from "@/lib/cms/getContentList"
-import { isFirstComponentInPage } from "@/lib/utils/pageZoneUtils"
+import { hasSiteChrome, isFirstComponentInPage, isFullBleed } from "@/lib/utils/pageZoneUtils"
 import type { UnloadedModuleProps } from "@agility/nextjs"
 import type { IPersonalizedBackgroundHero, IPersonalizedBackgroundHeroItem } from "@/lib/types/IPersonalizedBackgroundHero"
 import { getAudienceContentID } from "@/lib/utils/audienceRegionUtils"
@@ -78,9 +78,10 @@ export const PersonalizedBackgroundHero = async ({ module, languageCode, globalD
 
 	//check the page object to see if this component is the TOP component
 	const isFirstComponent = isFirstComponentInPage(module, page)
+	const fullBleed = isFullBleed(globalData)
 
 	return (
-		<div className={clsx("relative z-0", isFirstComponent ? "-mt-36" : "mt-20")} data-agility-component={contentID}>
+		<div className={clsx("relative z-0", isFirstComponent ? hasSiteChrome(globalData) && "-mt-36" : "mt-20")} data-agility-component={contentID}>
 			{/* Track personalization analytics */}
 			<PersonalizationTracker
 				audience={audienceName}
@@ -89,7 +90,7 @@ export const PersonalizedBackgroundHero = async ({ module, languageCode, globalD
 				isPersonalized={isPersonalized}
 			/>
 			<Gradient
-				className="absolute inset-2 bottom-0 rounded-4xl ring-1 ring-black/5 dark:ring-white/10 ring-inset"
+				className={clsx("absolute bottom-0", fullBleed ? "inset-0" : "inset-2 rounded-4xl ring-1 ring-black/5 dark:ring-white/10 ring-inset")}
 				backgroundType={selectedContent.backgroundType}
 				backgroundImage={selectedContent.backgroundImage}
 			/>
@@ -0,0 +1,78 @@
+import { getContentItem } from "@/lib/cms/getContentItem"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { type ITagCount, getTagCounts } from "@/lib/cms-content/getPostIndex"
+import { getTagUrl } from "@/lib/cms-content/getTagListing"
+import type { UnloadedModuleProps } from "@agility/nextjs"
+import Link from "next/link"
+import { clsx } from "clsx"
+import { Container } from "../container"
+import { Subheading } from "../text"
+
+interface ITagCloud {
+	heading?: string
+	//optional - only show the most used tags
+	maxTags?: number | string
+}
+
+//the text sizes of the tags, from the least to the most used
+const TAG_SIZES = ["text-sm", "text-base", "text-lg", "text-xl", "text-2xl"]
+
+/**
+ * Size a tag by how many posts have it, relative to the least and most used tags.
+ */
+const getTagSize = (count: number, min: number, max: number) => {
+	if (max === min) return TAG_SIZES[Math.floor(TAG_SIZES.length / 2)]
+	const step = Math.round(((count - min) / (max - min)) * (TAG_SIZES.length - 1))
+	return TAG_SIZES[step]
+}
+
+export const TagCloud = async ({ module, languageCode }: UnloadedModuleProps) => {
+	const {
+		fields: { heading, maxTags },
+		contentID,
+	} = await getContentItem<ITagCloud>({
+		contentID: module.contentid,
+		languageCode,
+	})
+
+	const { sitemap, locale } = await getAgilityContext(languageCode)
+
+	// the tags are counted from the cached posts list, so this doesn't need a request per tag
+	let tags: ITagCount[] = await getTagCounts({ sitemap, locale })
+
+	const limit = parseInt(`${maxTags || ""}`, 10)
+	if (!isNaN(limit) && limit > 0 && tags.length > limit) {
+		const mostUsed = new Set([...tags].sort((a, b) => b.count - a.count).slice(0, limit).map(tag => tag.contentID))
+		tags = tags.filter(tag => mostUsed.has(tag.contentID))
+	}
+
+	if (tags.length === 0) {
+		return null
+	}
+
+	const counts = tags.map(tag => tag.count)
+	const min = Math.min(...counts)
+	const max = Math.max(...counts)
+
+	return (
+		<Container className="py-16" data-agility-component={contentID}>
+			{heading && <Subheading data-agility-field="heading">{heading}</Subheading>}
+			<ul className="mt-6 flex flex-wrap items-baseline gap-x-6 gap-y-3">
+				{tags.map(tag => (
+					<li key={tag.contentID}>
+						<Link
+							href={getTagUrl(tag.slug, locale)}
+							title={`${tag.count} ${tag.count === 1 ? "post" : "posts"}`}
+							className={clsx(
+								getTagSize(tag.count, min, max),
+								"font-medium text-gray-700 dark:text-gray-300 hover:text-gray-950 dark:hover:text-white transition-colors"
+							)}
+						>
+							{tag.title}
+						</Link>
+					</li>
+				))}
+			</ul>
+		</Container>
+	)
+}
@@ -1,55 +1,37 @@
-import { BackgroundHero } from "./BackgroundHero";
-import { BentoSection } from "./BentoSection";
-import { CompanyStats } from "./company-stats";
-import { Header } from "./Header";
-import { Hero } from "./Hero";
-import { LogoStrip } from "./logo-strip/LogoStrip";
+import dynamic from "next/dynamic";
+import type { ComponentType } from "react";
 import NoComponentFound from "./NoComponentFound";
-import { PostListing } from "./post-listing/PostListing.server";
-import PostDetails from "./post-details/PostDetails";
-import { PricingCards } from "./pricing/PricingCards";
-import { PricingTable } from "./pricing/PricingTable";
-import { FrequentlyAskedQuestions } from "./pricing/FrequentlyAskedQuestions";
-import { Testimonial } from "./testimonial/TestimonialServer";
-import { Testimonials } from "./testimonials/TestimonialsServer";
+import { moduleRegistry, type ModuleRegistration } from "./registry";
+import { withModuleBoundary } from "./withModuleBoundary";
 
-import RichTextArea from "./RichTextArea";
-import { TeamListing } from "./TeamListing";
-import { ABTestHero } from "./ABTestHero";
-import { Carousel } from "./carousel/Carousel";
-import { ContactUs } from "./contact-us";
-import { PersonalizedLogoStrip } from "./personalized-logo-strip/PersonalizedLogoStrip";
-import { PersonalizedBackgroundHero } from "./PersonalizedBackgroundHero";
+export { moduleRegistry, type ModuleRegistration, type ModuleRendering } from "./registry";
 
+// All of the Agility Page Module Components that are in use in this site need to be registered in ./registry.ts,
+// with the name and content model they expect and how they render.
 
-// All of the Agility Page Module Components that are in use in this site need to be imported into this index file.
-// Place Page Modules in allModules array below, passing in a name and the component.
+const registrations = new Map<string, ModuleRegistration>(
+	moduleRegistry.map((registration) => [registration.name.toLowerCase(), registration])
+);
 
-const allModules = [
-	{ name: "RichTextArea", module: RichTextArea },
-	{ name: "BackgroundHero", module: BackgroundHero },
-	{ name: "BentoSection", module: BentoSection },
-	{ name: "CompanyStats", module: CompanyStats },
-	{ name: "Header", module: Header },
-	{ name: "Hero", module: Hero },
-	{ name: "ABTestHero", module: ABTestHero },
-	{ name: "LogoStrip", module: LogoStrip },
-	{ name: "PostListing", module: PostListing },
-	{ name: "PostDetails", module: PostDetails },
-	{ name: "PricingCards", module: PricingCards },
-	{ name: "PricingTable", module: PricingTable },
-	{ name: "FrequentlyAskedQuestions", module: FrequentlyAskedQuestions },
-	{ name: "Testimonial", module: Testimonial },
-	{ name: "Testimonials", module: Testimonials },
-	{ name: "TeamListing", module: TeamListing }
-	, { name: "Carousel", module: Carousel }
-	, { name: "ContactUs", module: ContactUs }
-	, { name: "PersonalizedLogoStrip", module: PersonalizedLogoStrip }
-	, { name: "PersonalizedBackgroundHero", module: PersonalizedBackgroundHero }
-];
+const notFoundModule = withModuleBoundary("NoComponentFound", NoComponentFound);
+
+//the lazy, error isolated component for each registration, created the first time the component is needed
+const loadedModules = new Map<string, ComponentType<any>>();
+
+/**
+ * Get the registration of an Agility Component/Module by name.
+ * @param moduleName
+ * @returns the registration, or undefined if the component isn't registered
+ */
+export const getModuleRegistration = (moduleName: string) => {
+	if (!moduleName) return undefined;
+	return registrations.get(moduleName.toLowerCase());
+};
 
 /**
  * Get the Agility Component/Module by name.
+ * The component's code is loaded on demand, showing its loading skeleton (if it has one) in the meantime,
+ * and an error while rendering it only replaces the component with a placeholder rather than failing the page.
  * If the component is not found, a default component will be returned.
  * @param moduleName
  * @returns
@@ -57,9 +39,14 @@ const allModules = [
 export const getModule = (moduleName: string): any | null => {
 
 	if (!moduleName) return null;
-	const obj = allModules.find(
-		(m) => m.name.toLowerCase() === moduleName.toLowerCase()
-	);
-	if (!obj) return NoComponentFound;
-	return obj.module
+	const key = moduleName.toLowerCase();
+	const registration = registrations.get(key);
+	if (!registration) return notFoundModule;
+
+	let component = loadedModules.get(key);
+	if (!component) {
+		component = withModuleBoundary(registration.name, dynamic(registration.load), registration.loading);
+		loadedModules.set(key, component);
+	}
+	return component;
 };
@@ -0,0 +1,103 @@
+"use client"
+import { type ContentItem } from "@agility/content-fetch"
+import { useState } from "react"
+
+import OutputField from "./OutputField"
+import RawContentItem from "./RawContentItem"
+
+interface Props {
+	moduleName: string
+	contentID: number
+	contentItem: ContentItem | null
+	//where the component is on the page
+	position: { zone: string, index: number } | null
+	//the component in the Agility content manager
+	editorUrl: string | null
+	//the registered component with the closest name
+	suggestion: string | null
+	scaffold: { fileName: string, source: string, registration: string } | null
+}
+
+function CopyButton({ text, label }: { text: string, label: string }) {
+	const [copied, setCopied] = useState(false)
+
+	return (
+		<button
+			type="button"
+			onClick={async () => {
+				await navigator.clipboard.writeText(text)
+				setCopied(true)
+				setTimeout(() => setCopied(false), 2000)
+			}}
+			className="rounded-full px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium transition-colors"
+		>
+			{copied ? "Copied!" : label}
+		</button>
+	)
+}
+
+/**
+ * Shown in development and preview in place of a component that isn't registered, to help wire it up.
+ */
+export default function ComponentInspector({ moduleName, contentID, contentItem, position, editorUrl, suggestion, scaffold }: Props) {
+	return (
+		<div className="p-6">
+			<div className="p-6 bg-white rounded-md shadow-md shadow-red-500 mx-auto border border-red-200">
+				<div className="flex flex-wrap items-center gap-2">
+					<span className="rounded-full px-2 py-1 bg-red-200 text-red-800 text-sm font-medium uppercase">
+						Component not found
+					</span>
+					<span className="text-xs text-gray-500">Only shown in development and preview</span>
+				</div>
+				<h2 className="my-2 flex flex-wrap items-baseline gap-2">
+					<span className="text-2xl font-bold text-gray-700">{moduleName || "(unknown module)"}</span>
+					{contentItem && <span className="text-gray-500">({contentItem.properties.definitionName})</span>}
+				</h2>
+
+				<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm text-gray-600">
+					<dt className="font-medium">Content ID</dt>
+					<dd>{contentID}</dd>
+					<dt className="font-medium">Zone</dt>
+					<dd>{position ? `${position.zone}, position ${position.index + 1}` : "Not found on the page"}</dd>
+					{editorUrl && <>
+						<dt className="font-medium">Agility</dt>
+						<dd>
+							<a href={editorUrl} target="_blank" rel="noreferrer" className="text-purple-600 hover:underline">Edit this component</a>
+						</dd>
+					</>}
+				</dl>
+
+				{suggestion && (
+					<p className="mt-4 text-gray-700">
+						Did you mean <strong>{suggestion}</strong>? Check the name of the component model in Agility matches the name it&apos;s registered with in <code>src/components/agility-components/registry.ts</code>.
+					</p>
+				)}
+
+				{scaffold && (
+					<div className="mt-4">
+						<h3 className="text-xl font-bold text-gray-600 border-b border-b-gray-300">Scaffold</h3>
+						<p className="mt-2 text-sm text-gray-600">
+							Save this as <code>{scaffold.fileName}</code>, then add the registration to <code>src/components/agility-components/registry.ts</code>.
+						</p>
+						<div className="mt-2 flex gap-2">
+							<CopyButton text={scaffold.source} label="Copy component" />
+							<CopyButton text={scaffold.registration} label="Copy registration" />
+						</div>
+						<pre className="mt-2 max-h-64 overflow-auto text-xs bg-gray-100 rounded-sm p-4 border border-gray-300">{scaffold.source}</pre>
+					</div>
+				)}
+
+				{contentItem && <>
+					<h3 className="mt-4 text-xl font-bold text-gray-600 border-b border-b-gray-300">Fields</h3>
+					<div className="flex flex-col gap-4 mt-2">
+						{Object.keys(contentItem.fields).map((fieldName) => (
+							<OutputField key={fieldName} fieldName={fieldName} fieldValue={contentItem.fields[fieldName]} />
+						))}
+					</div>
+
+					<RawContentItem contentItem={contentItem} />
+				</>}
+			</div>
+		</div>
+	)
+}
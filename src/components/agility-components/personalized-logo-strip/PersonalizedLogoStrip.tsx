@@ -2,7 +2,7 @@ import { getContentItem } from "@/lib/cms/getContentItem"
 import { getContentList } from "@/lib/cms/getContentList"
 import type { ContentItem, ImageField, UnloadedModuleProps, URLField } from "@agility/nextjs"
 import { PersonalizedLogoStripClient } from "./PersonalizedLogoStripClient"
-import type { ICustomerProfile } from "@/lib/types/ICustomerProfile"
+import type { ICustomerProfile } from "@/lib/types/generated"
 import { getAudienceContentID } from "@/lib/utils/audienceRegionUtils"
 
 
@@ -4,7 +4,7 @@ import type { ContentItem, URLField } from "@agility/nextjs"
 import { Container } from "../../container"
 import Link from "next/link"
 import { useEffect, useRef, useState } from "react"
-import type { ICustomerProfile } from "@/lib/types/ICustomerProfile"
+import type { ICustomerProfile } from "@/lib/types/generated"
 
 interface PersonalizedLogoStripClientProps {
 	customers: ContentItem<ICustomerProfile>[]
@@ -88,11 +88,13 @@ export const PersonalizedLogoStripClient = ({ customers, ctaDescription, cta }:
 									key={index}
 									className="flex-shrink-0 flex gap-3 items-center justify-center min-w-[160px] lg:min-w-[200px]"
 								>
-									<img
-										alt={name}
-										src={logo.url}
-										className="h-8 lg:h-10 w-auto object-contain dark:brightness-0 dark:invert"
-									/>
+									{logo && (
+										<img
+											alt={name}
+											src={logo.url}
+											className="h-8 lg:h-10 w-auto object-contain dark:brightness-0 dark:invert"
+										/>
+									)}
 									<div className="text-lg font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
 										{name}
 									</div>
@@ -1,15 +1,23 @@
 import React from "react"
-import { AgilityPic, type UnloadedModuleProps, renderHTML } from "@agility/nextjs"
-import { DateTime } from "luxon"
-import type { IPost } from "@/lib/types/IPost"
+import { AgilityPic, type ContentItem, type UnloadedModuleProps, renderHTML } from "@agility/nextjs"
+import type { IAuthor, IPost } from "@/lib/types/generated"
 import { ChevronLeftIcon } from "@heroicons/react/16/solid"
-import dayjs from "dayjs"
 import Link from "next/link"
 import { Container } from "../../container"
 import { Subheading, Heading } from "../../text"
 import { Button } from "../../button"
 import { PostImage } from "./PostImage"
 import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import { formatLocaleDate } from "@/lib/i18n/localeMetadata"
+import { getAgilityContext } from "@/lib/cms/getAgilityContext"
+import { getPostTags, getRelatedPosts } from "@/lib/cms-content/getPostIndex"
+import { type ITagMin, getTagUrl } from "@/lib/cms-content/getTagListing"
+import { type IPostMin, type PostSlugs, getPostSlugs } from "@/lib/cms-content/getPostListing"
+import { getAuthorUrl } from "@/lib/cms-content/getAuthorListing"
+import { RelatedPosts } from "./RelatedPosts"
+
+//how many related posts are shown below the post
+const relatedPostsCount = 3
 
 const PostDetails = async ({ dynamicPageItem, languageCode }: UnloadedModuleProps) => {
 	if (!dynamicPageItem) {
@@ -22,21 +30,39 @@ const PostDetails = async ({ dynamicPageItem, languageCode }: UnloadedModuleProp
 	// category
 	const category = post.category?.fields.name || "Uncategorized"
 
-	// format date
-	const dateStr = DateTime.fromJSDate(new Date(post.postDate)).toFormat(
-		"LLL. dd, yyyy"
-	)
-
 	// content id
 	const contentID = dynamicPageItem.contentID
 
+	// tags and related posts come from the cached index of all posts - the post still renders if it can't be loaded
+	const { sitemap, locale } = await getAgilityContext(languageCode)
+	let tags: ITagMin[] = []
+	let relatedPosts: IPostMin[] = []
+	try {
+		[tags, relatedPosts] = await Promise.all([
+			getPostTags({ sitemap, locale, contentID }),
+			getRelatedPosts({ sitemap, locale, contentID, take: relatedPostsCount })
+		])
+	} catch (error) {
+		console.warn("Could not load the tags and related posts for post:", contentID, error)
+	}
+
+	// the author and category are only linked if they're in their listings (so their pages exist)
+	let slugs: PostSlugs = { categories: new Map(), authors: new Map() }
+	try {
+		slugs = await getPostSlugs(locale)
+	} catch (error) {
+		console.warn("Could not load the categories and authors for post:", contentID, error)
+	}
+	const authorSlug = post.author ? slugs.authors.get(post.author.contentID)?.slug : undefined
+	const categorySlug = post.category ? slugs.categories.get(post.category.contentID)?.slug : undefined
+
 	return (
 		<Container data-agility-component={contentID}>
 			<Subheading
 				className="mt-16"
 				data-agility-field="postDate"
 			>
-				{dayjs(post.postDate).format('dddd, MMMM D, YYYY')}
+				{formatLocaleDate(post.postDate, languageCode, "long")}
 			</Subheading>
 			<Heading
 				as="h1"
@@ -47,31 +73,47 @@ const PostDetails = async ({ dynamicPageItem, languageCode }: UnloadedModuleProp
 			</Heading>
 			<div className="mt-16 grid grid-cols-1 gap-8 pb-24 lg:grid-cols-[15rem_1fr] xl:grid-cols-[15rem_1fr_15rem]">
 				<div className="flex flex-wrap items-center gap-8 max-lg:justify-between lg:flex-col lg:items-start">
-					{post.author && (
+					{post.author && (authorSlug ? (
+						<Link
+							href={getAuthorUrl(authorSlug, locale)}
+							className="group flex items-center gap-3"
+						>
+							<PostAuthor author={post.author} />
+						</Link>
+					) : (
 						<div className="flex items-center gap-3">
-							{post.author.fields.headShot && (
-								<AgilityPic
-									image={post.author.fields.headShot}
-									fallbackWidth={64}
-									className="aspect-square size-6 rounded-full object-cover"
+							<PostAuthor author={post.author} />
+						</div>
+					))}
 
-								/>
+					{post.category && (
+						<div className="flex flex-wrap gap-2">
+							{categorySlug ? (
+								<Link
+									href={localizeUrl(`/blog?category=${categorySlug}`, locale)}
+									className="rounded-full border border-dotted border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 px-2 text-sm/6 font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+								>
+									{post.category.fields.name}
+								</Link>
+							) : (
+								<span className="rounded-full border border-dotted border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 px-2 text-sm/6 font-medium text-gray-500 dark:text-gray-400">
+									{post.category.fields.name}
+								</span>
 							)}
-							<div className="text-sm/5 text-gray-700 dark:text-gray-300">
-								{post.author.fields.name}
-							</div>
 						</div>
 					)}
 
-					{post.category && (
-						<div className="flex flex-wrap gap-2">
-							<Link
-								key={post.category.contentID}
-								href={`/blog?category=${post.category.fields.name}`}
-								className="rounded-full border border-dotted border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 px-2 text-sm/6 font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-							>
-								{post.category.fields.name}
-							</Link>
+					{tags.length > 0 && (
+						<div className="flex flex-wrap gap-2" data-agility-field="tags">
+							{tags.map(tag => (
+								<Link
+									key={tag.contentID}
+									href={getTagUrl(tag.slug, locale)}
+									className="text-sm/6 font-medium text-gray-500 dark:text-gray-400 hover:text-gray-950 dark:hover:text-white transition-colors"
+								>
+									#{tag.title}
+								</Link>
+							))}
 						</div>
 					)}
 				</div>
@@ -101,9 +143,28 @@ const PostDetails = async ({ dynamicPageItem, languageCode }: UnloadedModuleProp
 					</div>
 				</div>
 			</div>
+			<RelatedPosts posts={relatedPosts} />
 		</Container>
 	)
 }
 
+/**
+ * The author's headshot and name, for the byline.
+ */
+const PostAuthor = ({ author }: { author: ContentItem<IAuthor> }) => (
+	<>
+		{author.fields.headShot && (
+			<AgilityPic
+				image={author.fields.headShot}
+				fallbackWidth={64}
+				className="aspect-square size-6 rounded-full object-cover"
+			/>
+		)}
+		<div className="text-sm/5 text-gray-700 dark:text-gray-300 group-hover:text-gray-950 dark:group-hover:text-white transition-colors">
+			{author.fields.name}
+		</div>
+	</>
+)
+
 export default PostDetails
 export { PostImage } from "./PostImage"
@@ -0,0 +1,38 @@
+import { AgilityPic } from "@agility/nextjs"
+import Link from "next/link"
+import type { IPostMin } from "@/lib/cms-content/getPostListing"
+
+interface RelatedPostsProps {
+	posts: IPostMin[]
+}
+
+export const RelatedPosts = ({ posts }: RelatedPostsProps) => {
+	if (posts.length === 0) {
+		return null
+	}
+
+	return (
+		<div className="border-t border-gray-900/5 dark:border-white/10 pt-16 pb-24">
+			<h2 className="text-2xl font-medium tracking-tight text-gray-900 dark:text-white">Related posts</h2>
+			<div className="mt-8 grid grid-cols-1 gap-8 md:grid-cols-3">
+				{posts.map((post) => (
+					<Link key={post.contentID} href={post.url} className="group flex flex-col gap-4">
+						{post.image && (
+							<AgilityPic
+								image={post.image}
+								fallbackWidth={600}
+								className="aspect-3/2 w-full rounded-2xl object-cover transition-transform duration-200 ease-in-out group-hover:scale-[1.02] dark:grayscale"
+							/>
+						)}
+						<div className="text-sm/5 text-gray-500 dark:text-gray-400">
+							{post.date}
+						</div>
+						<div className="text-base/7 font-medium text-gray-900 dark:text-white group-hover:text-gray-700 dark:group-hover:text-gray-300 transition-colors">
+							{post.title}
+						</div>
+					</Link>
+				))}
+			</div>
+		</div>
+	)
+}
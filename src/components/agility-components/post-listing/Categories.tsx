@@ -2,13 +2,22 @@ import { Button } from '@/components/button'
 import { Link } from '@/components/link'
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react'
 import { CheckIcon, ChevronUpDownIcon, RssIcon } from '@heroicons/react/16/solid'
+import { type ICategoryMin, getCategoryListing } from '@/lib/cms-content/getCategoryListing'
+import { localizeUrl } from '@/lib/i18n/localizeUrl'
 
 interface CategoriesProps {
+	//the slug of the selected category
 	selected?: string
+	locale: string
 }
 
-export async function Categories({ selected }: CategoriesProps) {
-	let categories: any[] = []
+export async function Categories({ selected, locale }: CategoriesProps) {
+	let categories: ICategoryMin[] = []
+	try {
+		categories = await getCategoryListing({ locale })
+	} catch (error) {
+		console.warn('Could not load the post categories:', error)
+	}
 
 	if (categories.length === 0) {
 		return
@@ -18,7 +27,7 @@ export async function Categories({ selected }: CategoriesProps) {
 		<div className="flex flex-wrap items-center justify-between gap-2">
 			<Menu>
 				<MenuButton className="flex items-center justify-between gap-2 font-medium">
-					{categories.find(({ slug }) => slug === selected)?.title ||
+					{categories.find(({ slug }) => slug === selected)?.name ||
 						'All categories'}
 					<ChevronUpDownIcon className="size-4 fill-gray-900" />
 				</MenuButton>
@@ -28,7 +37,7 @@ export async function Categories({ selected }: CategoriesProps) {
 				>
 					<MenuItem>
 						<Link
-							href="/blog"
+							href={localizeUrl('/blog', locale)}
 							data-selected={selected === undefined ? true : undefined}
 							className="group grid grid-cols-[1rem_1fr] items-center gap-2 rounded-md px-2 py-1 data-focus:bg-gray-950/5"
 						>
@@ -37,20 +46,20 @@ export async function Categories({ selected }: CategoriesProps) {
 						</Link>
 					</MenuItem>
 					{categories.map((category) => (
-						<MenuItem key={category.slug}>
+						<MenuItem key={category.contentID}>
 							<Link
-								href={`/blog?category=${category.slug}`}
+								href={localizeUrl(`/blog?category=${category.slug}`, locale)}
 								data-selected={category.slug === selected ? true : undefined}
 								className="group grid grid-cols-[16px_1fr] items-center gap-2 rounded-md px-2 py-1 data-focus:bg-gray-950/5"
 							>
 								<CheckIcon className="hidden size-4 group-data-selected:block" />
-								<p className="col-start-2 text-sm/6">{category.title}</p>
+								<p className="col-start-2 text-sm/6">{category.name}</p>
 							</Link>
 						</MenuItem>
 					))}
 				</MenuItems>
 			</Menu>
-			<Button variant="outline" href="/blog/feed.xml" className="gap-1">
+			<Button variant="outline" href={localizeUrl(selected ? `/blog/feed.xml?category=${selected}` : '/blog/feed.xml', locale)} className="gap-1">
 				<RssIcon className="size-4" />
 				RSS Feed
 			</Button>
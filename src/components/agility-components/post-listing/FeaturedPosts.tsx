@@ -1,55 +1,62 @@
 import { Container } from '@/components/container'
 import { Link } from '@/components/link'
-import dayjs from 'dayjs'
+import { type IPostMin } from '@/lib/cms-content/getPostListing'
+import { AgilityPic } from '@agility/nextjs'
 
-export async function FeaturedPosts() {
-	let featuredPosts: any[] = []
+interface FeaturedPostsProps {
+	posts: IPostMin[]
+}
 
-	if (featuredPosts.length === 0) {
+export function FeaturedPosts({ posts }: FeaturedPostsProps) {
+	if (posts.length === 0) {
 		return
 	}
 
 	return (
-		<div className="mt-16 bg-linear-to-t from-gray-100 pb-14">
+		<div className="mt-16 bg-linear-to-t from-gray-100 dark:from-gray-800/50 pb-14">
 			<Container>
-				<h2 className="text-2xl font-medium tracking-tight">Featured</h2>
+				<h2 className="text-2xl font-medium tracking-tight text-gray-900 dark:text-white">Featured</h2>
 				<div className="mt-6 grid grid-cols-1 gap-8 lg:grid-cols-3">
-					{featuredPosts.map((post) => (
+					{posts.map((post) => (
 						<div
-							key={post.slug}
-							className="relative flex flex-col rounded-3xl bg-white p-2 shadow-md ring-1 shadow-black/5 ring-black/5"
+							key={post.contentID}
+							className="relative flex flex-col rounded-3xl bg-white dark:bg-gray-900 p-2 shadow-md ring-1 shadow-black/5 ring-black/5 dark:ring-white/10"
 						>
-							{post.mainImage && (
-								<img
-									alt={post.mainImage.alt || ''}
-									src={post.mainImage.url}
-									className="aspect-3/2 w-full rounded-2xl object-cover"
+							{post.image && (
+								<AgilityPic
+									image={post.image}
+									fallbackWidth={600}
+									className="aspect-3/2 w-full rounded-2xl object-cover dark:grayscale"
+									sources={[
+										{ media: "(max-width: 1023px)", width: 1200 },
+										{ media: "(min-width: 1024px)", width: 600 },
+									]}
 								/>
 							)}
 							<div className="flex flex-1 flex-col p-8">
-								<div className="text-sm/5 text-gray-700">
-									{dayjs(post.publishedAt).format('dddd, MMMM D, YYYY')}
+								<div className="text-sm/5 text-gray-700 dark:text-gray-300">
+									{post.date}
 								</div>
-								<div className="mt-2 text-base/7 font-medium">
-									<Link href={`/blog/${post.slug}`}>
+								<div className="mt-2 text-base/7 font-medium text-gray-900 dark:text-white">
+									<Link href={post.url}>
 										<span className="absolute inset-0" />
 										{post.title}
 									</Link>
 								</div>
-								<div className="mt-2 flex-1 text-sm/6 text-gray-500">
+								<div className="mt-2 flex-1 text-sm/6 text-gray-500 dark:text-gray-400">
 									{post.excerpt}
 								</div>
 								{post.author && (
 									<div className="mt-6 flex items-center gap-3">
-										{post.author.image && (
+										{post.authorImage && (
 											<img
 												alt=""
-												src={post.author.image.url}
+												src={post.authorImage.url}
 												className="aspect-square size-6 rounded-full object-cover"
 											/>
 										)}
-										<div className="text-sm/5 text-gray-700">
-											{post.author.name}
+										<div className="text-sm/5 text-gray-700 dark:text-gray-300">
+											{post.author}
 										</div>
 									</div>
 								)}
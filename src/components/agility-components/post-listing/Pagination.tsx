@@ -10,16 +10,18 @@ interface PaginationProps {
 	totalPosts: number
 	postsPerPage: number
 	languageCode: string
+	//the listing being paged through, before localizing
+	basePath?: string
 }
 
-export async function Pagination({ page, category, totalPosts, postsPerPage, languageCode }: PaginationProps) {
+export async function Pagination({ page, category, totalPosts, postsPerPage, languageCode, basePath = '/blog' }: PaginationProps) {
 	function url(page: number) {
 		let params = new URLSearchParams()
 
 		if (category) params.set('category', category)
 		if (page > 1) params.set('page', page.toString())
 
-		const theUrl = params.size !== 0 ? `/blog?${params.toString()}` : '/blog'
+		const theUrl = params.size !== 0 ? `${basePath}?${params.toString()}` : basePath
 
 		return localizeUrl(theUrl, languageCode)
 	}
@@ -1,16 +1,24 @@
 import { Container } from '@/components/container'
-import { getPostListing } from '@/lib/cms-content/getPostListing'
+import { type IPostMin, getFeaturedPosts, getPostListing } from '@/lib/cms-content/getPostListing'
 import { getAgilityContext } from '@/lib/cms/getAgilityContext'
+import { getContentItem } from '@/lib/cms/getContentItem'
 import { FeaturedPosts } from './FeaturedPosts'
 import { Categories } from './Categories'
 import { Posts } from './Posts'
 import { Pagination } from './Pagination'
-import type { UnloadedModuleProps } from '@agility/nextjs'
+import type { ContentItem, UnloadedModuleProps } from '@agility/nextjs'
+import type { IPost } from '@/lib/types/generated'
+import { slugify } from '@/lib/utils/slugify'
 
 const postsPerPage = 5
+const featuredPostsCount = 3
 
+interface IPostListing {
+	//optional - posts to feature above the listing, instead of the latest posts marked as Featured
+	featuredPosts?: ContentItem<IPost>[] | null
+}
 
-export const PostListing = async ({ globalData, languageCode }: UnloadedModuleProps) => {
+export const PostListing = async ({ module, globalData, languageCode }: UnloadedModuleProps) => {
 
 	// Get page from globalData, default to 1
 	const pageParam = globalData?.searchParams?.page
@@ -22,24 +30,40 @@ export const PostListing = async ({ globalData, languageCode }: UnloadedModulePr
 		}
 	}
 
-	// Get category from globalData
+	// Get category slug from globalData
 	const categoryParam = globalData?.searchParams?.category
 	let category: string | undefined = undefined
-	if (typeof categoryParam === 'string' && categoryParam.trim() !== '') {
-		category = categoryParam
+	if (typeof categoryParam === 'string' && slugify(categoryParam) !== '') {
+		category = slugify(categoryParam)
 	}
 	const { sitemap, locale } = await getAgilityContext(languageCode)
 
+	// the featured posts are shown above the first page of all posts, and left out of every page of the listing so they aren't repeated
+	let featuredPosts: IPostMin[] = []
+	if (!category) {
+		const moduleItem = await getContentItem<IPostListing>({
+			contentID: module.contentid,
+			languageCode,
+			contentLinkDepth: 3
+		})
+		//without the module item (or a linked list), the latest posts marked as Featured are used
+		featuredPosts = await getFeaturedPosts({
+			locale, sitemap, take: featuredPostsCount, linkedPosts: moduleItem?.fields?.featuredPosts
+		})
+	}
+
+	// the total count is for the selected category, so the pagination is too
 	const postsResult = await getPostListing({
-		locale, sitemap, skip: (page - 1) * postsPerPage, take: postsPerPage
+		locale, sitemap, skip: (page - 1) * postsPerPage, take: postsPerPage, category,
+		exclude: featuredPosts
 	})
 
 
 	return (
 		<>
-			{page === 1 && !category && <FeaturedPosts />}
+			{page === 1 && <FeaturedPosts posts={featuredPosts} />}
 			<Container className="mt-16 pb-24">
-				<Categories selected={category} />
+				<Categories selected={category} locale={locale} />
 				<Posts page={page} category={category} posts={postsResult.posts} />
 				<Pagination {...{ page, category, totalPosts: postsResult.totalCount, postsPerPage, languageCode }} />
 			</Container>
@@ -4,11 +4,12 @@ import { Gradient } from '@/components/gradient'
 import { LogoCloud } from '@/components/logo-cloud'
 import { Subheading } from '@/components/text'
 import { CheckIcon, MinusIcon } from '@heroicons/react/16/solid'
-import type { UnloadedModuleProps, URLField, ContentItem } from "@agility/nextjs"
+import type { UnloadedModuleProps, ContentItem } from "@agility/nextjs"
 import { getContentItem } from "@/lib/cms/getContentItem"
 import { getContentList } from "@/lib/cms/getContentList"
-import type { IPricingTier } from "@/lib/types/IPricingTier"
+import type { IPricingTier } from "@/lib/types/generated"
 import { getRegionContentID } from '@/lib/utils/audienceRegionUtils'
+import { formatLocaleCurrency, getLocaleMetadata } from '@/lib/i18n/localeMetadata'
 
 interface IPricingCards {
 	title?: string
@@ -17,16 +18,9 @@ interface IPricingCards {
 
 }
 
-interface TransformedTier {
-	name: string
-	description: string
+interface TransformedTier extends Omit<IPricingTier, "priceMonthly" | "highlights"> {
 	priceMonthly: number
-	currency: string
-	currencySymbol: string
-	ctaButton: URLField
 	highlights: string[]
-	regionName?: string
-	regionID?: string
 }
 
 export const PricingCards = async ({ module, languageCode, globalData }: UnloadedModuleProps) => {
@@ -76,7 +70,7 @@ export const PricingCards = async ({ module, languageCode, globalData }: Unloade
 			const fields = tier.fields
 			return {
 				...fields,
-				priceMonthly: parseFloat(fields.priceMonthly) || 0,
+				priceMonthly: typeof fields.priceMonthly === 'number' ? fields.priceMonthly : parseFloat(fields.priceMonthly) || 0,
 				highlights: fields.highlights ? fields.highlights.split('\n').map(h => h.trim()).filter(h => h) : [],
 			}
 		})
@@ -99,7 +93,7 @@ export const PricingCards = async ({ module, languageCode, globalData }: Unloade
 				)}
 				<div className="grid grid-cols-1 gap-8 lg:grid-cols-3" data-agility-field="pricingTiers">
 					{tiers.map((tier: TransformedTier, tierIndex: number) => (
-						<PricingCard key={tierIndex} tier={tier} />
+						<PricingCard key={tierIndex} tier={tier} locale={languageCode} />
 					))}
 				</div>
 			</Container>
@@ -107,7 +101,10 @@ export const PricingCards = async ({ module, languageCode, globalData }: Unloade
 	)
 }
 
-function PricingCard({ tier }: { tier: TransformedTier }) {
+function PricingCard({ tier, locale }: { tier: TransformedTier, locale: string }) {
+	//the tier's currency, e.g. for a region, otherwise the locale's
+	const currency = tier.currency || getLocaleMetadata(locale).currency
+
 	return (
 		<div className="-m-2 grid grid-cols-1 rounded-4xl shadow-[inset_0_0_2px_1px_#ffffff4d] dark:shadow-[inset_0_0_2px_1px_#ffffff1a] ring-1 ring-black/5 dark:ring-white/10 max-lg:mx-auto max-lg:w-full max-lg:max-w-md">
 			<div className="grid grid-cols-1 rounded-4xl p-2 shadow-md shadow-black/5 dark:shadow-black/20">
@@ -116,10 +113,10 @@ function PricingCard({ tier }: { tier: TransformedTier }) {
 					<p className="mt-2 text-sm/6 text-gray-950/75 dark:text-gray-300">{tier.description}</p>
 					<div className="mt-8 flex items-center gap-4">
 						<div className="text-5xl font-medium text-gray-950 dark:text-white">
-							{tier.currencySymbol || '$'}{tier.priceMonthly}
+							{formatLocaleCurrency(tier.priceMonthly, locale, currency)}
 						</div>
 						<div className="text-sm/5 text-gray-950/75 dark:text-gray-300">
-							<p>{tier.currency || 'USD'}</p>
+							<p>{currency}</p>
 							<p>per month</p>
 						</div>
 					</div>
@@ -0,0 +1,168 @@
+import type { ComponentType } from "react"
+import { CardGridSkeleton, ModuleSkeleton } from "./ModuleSkeleton"
+
+/**
+ * How a component renders:
+ * - server: an async server component, no client javascript
+ * - hybrid: fetches its content on the server and hands it to client components for interactivity
+ * - client: a client component rendered straight from the zone
+ */
+export type ModuleRendering = "server" | "hybrid" | "client"
+
+/**
+ * A component that can be placed in a content zone in Agility.
+ */
+export interface ModuleRegistration {
+	//the reference name of the component model in Agility (matched case-insensitively)
+	name: string
+	//the reference name of the content model its content item uses
+	contentModel: string
+	rendering: ModuleRendering
+	//imports the component, so each one is split into its own chunk and only loaded when it's on the page
+	load: () => Promise<ComponentType<any>>
+	//shown while the component's code and content load
+	loading?: ComponentType
+}
+
+// All of the Agility components that are in use in this site need to be registered here.
+
+export const moduleRegistry: ModuleRegistration[] = [
+	{
+		name: "RichTextArea",
+		contentModel: "RichTextArea",
+		rendering: "server",
+		load: () => import("./RichTextArea").then(m => m.default),
+	},
+	{
+		name: "BackgroundHero",
+		contentModel: "BackgroundHero",
+		rendering: "server",
+		load: () => import("./BackgroundHero").then(m => m.BackgroundHero),
+		loading: ModuleSkeleton,
+	},
+	{
+		name: "BentoSection",
+		contentModel: "BentoSection",
+		rendering: "hybrid",
+		load: () => import("./BentoSection").then(m => m.BentoSection),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "CompanyStats",
+		contentModel: "CompanyStats",
+		rendering: "hybrid",
+		load: () => import("./company-stats").then(m => m.CompanyStats),
+	},
+	{
+		name: "Header",
+		contentModel: "Header",
+		rendering: "server",
+		load: () => import("./Header").then(m => m.Header),
+	},
+	{
+		name: "Hero",
+		contentModel: "Hero",
+		rendering: "server",
+		load: () => import("./Hero").then(m => m.Hero),
+		loading: ModuleSkeleton,
+	},
+	{
+		name: "ABTestHero",
+		contentModel: "ABTestHero",
+		rendering: "hybrid",
+		load: () => import("./ABTestHero").then(m => m.ABTestHero),
+		loading: ModuleSkeleton,
+	},
+	{
+		name: "LogoStrip",
+		contentModel: "LogoStrip",
+		rendering: "hybrid",
+		load: () => import("./logo-strip/LogoStrip").then(m => m.LogoStrip),
+	},
+	{
+		name: "PostListing",
+		contentModel: "PostListing",
+		rendering: "hybrid",
+		load: () => import("./post-listing/PostListing.server").then(m => m.PostListing),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "PostDetails",
+		contentModel: "PostDetails",
+		rendering: "hybrid",
+		load: () => import("./post-details/PostDetails").then(m => m.default),
+		loading: ModuleSkeleton,
+	},
+	{
+		name: "TagCloud",
+		contentModel: "TagCloud",
+		rendering: "server",
+		load: () => import("./TagCloud").then(m => m.TagCloud),
+	},
+	{
+		name: "PricingCards",
+		contentModel: "PricingCards",
+		rendering: "server",
+		load: () => import("./pricing/PricingCards").then(m => m.PricingCards),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "PricingTable",
+		contentModel: "PricingTable",
+		rendering: "hybrid",
+		load: () => import("./pricing/PricingTable").then(m => m.PricingTable),
+	},
+	{
+		name: "FrequentlyAskedQuestions",
+		contentModel: "FrequentlyAskedQuestions",
+		rendering: "server",
+		load: () => import("./pricing/FrequentlyAskedQuestions").then(m => m.FrequentlyAskedQuestions),
+	},
+	{
+		name: "Testimonial",
+		contentModel: "Testimonial",
+		rendering: "hybrid",
+		load: () => import("./testimonial/TestimonialServer").then(m => m.Testimonial),
+	},
+	{
+		name: "Testimonials",
+		contentModel: "Testimonials",
+		rendering: "hybrid",
+		load: () => import("./testimonials/TestimonialsServer").then(m => m.Testimonials),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "TeamListing",
+		contentModel: "TeamListing",
+		rendering: "server",
+		load: () => import("./TeamListing").then(m => m.TeamListing),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "Carousel",
+		contentModel: "Carousel",
+		rendering: "hybrid",
+		load: () => import("./carousel/Carousel").then(m => m.Carousel),
+		loading: CardGridSkeleton,
+	},
+	{
+		name: "ContactUs",
+		contentModel: "ContactUs",
+		rendering: "hybrid",
+		load: () => import("./contact-us").then(m => m.ContactUs),
+		loading: ModuleSkeleton,
+	},
+	{
+		name: "PersonalizedLogoStrip",
+		contentModel: "PersonalizedLogoStrip",
+		rendering: "hybrid",
+		load: () => import("./personalized-logo-strip/PersonalizedLogoStrip").then(m => m.PersonalizedLogoStrip),
+	},
+	{
+		name: "PersonalizedBackgroundHero",
+		contentModel: "PersonalizedBackgroundHero",
+		rendering: "hybrid",
+		load: () => import("./PersonalizedBackgroundHero").then(m => m.PersonalizedBackgroundHero),
+		loading: ModuleSkeleton,
+	},
+]
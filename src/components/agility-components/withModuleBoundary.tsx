@@ -0,0 +1,32 @@
+import { Suspense, type ComponentType } from "react"
+import type { UnloadedModuleProps } from "@agility/nextjs"
+import { ModuleErrorBoundary } from "./ModuleErrorBoundary"
+
+/**
+ * Wrap a component rendered in a content zone so it can't take the page down with it:
+ * an error is caught by its own boundary, and while it loads its skeleton (if any) is shown.
+ * The Suspense boundary is needed too: when a server component throws, the server renders the fallback instead
+ * and the error is thrown again on the client, where the error boundary catches it.
+ * @param moduleName the name the component is registered with
+ * @param Module the component
+ * @param Loading the skeleton to show while it loads
+ * @returns
+ */
+export const withModuleBoundary = (moduleName: string, Module: ComponentType<any>, Loading?: ComponentType) => {
+	const BoundedModule = (props: UnloadedModuleProps) => {
+		return (
+			<ModuleErrorBoundary
+				moduleName={moduleName}
+				contentID={props.module?.contentid}
+				showDetails={props.isDevelopmentMode || props.isPreview}
+			>
+				<Suspense fallback={Loading ? <Loading /> : null}>
+					<Module {...props} />
+				</Suspense>
+			</ModuleErrorBoundary>
+		)
+	}
+
+	BoundedModule.displayName = `ModuleBoundary(${moduleName})`
+	return BoundedModule
+}
@@ -0,0 +1,23 @@
+import React from "react"
+import { ContentZone } from "@agility/nextjs"
+import { getModule } from "../agility-components"
+import { Container } from "../container"
+
+const TwoColumnTemplate = (props: any) => {
+	return (
+
+		<Container className="mt-16">
+			<div className="grid grid-cols-1 gap-x-12 gap-y-16 lg:grid-cols-[minmax(0,1fr)_20rem]">
+				<div className="min-w-0">
+					<ContentZone name="main-content-zone" {...props} getModule={getModule} />
+				</div>
+				<aside className="min-w-0">
+					<ContentZone name="sidebar-zone" {...props} getModule={getModule} />
+				</aside>
+			</div>
+		</Container>
+
+	)
+}
+
+export default TwoColumnTemplate
@@ -1,15 +1,82 @@
-import MainTemplate from "./MainTemplate";
+import dynamic from "next/dynamic";
+import type { ComponentType } from "react";
 
-// All of the Agility Page Template Components that are in use in this site need to be imported into this index file.
-// Place Page Templates in allTemplates array below, passing in a name and the component.
+/**
+ * A page template that pages in Agility can use.
+ */
+export interface PageTemplateRegistration {
+	//the name of the page template in Agility, without spaces or punctuation (matched case-insensitively)
+	name: string
+	//the content zones the template renders
+	zones: string[]
+	//render the site header and footer around the template (defaults to true)
+	chrome?: boolean
+	//render the components edge to edge
+	fullBleed?: boolean
+	//imports the template, so each one is split into its own chunk
+	load: () => Promise<ComponentType<any>>
+}
 
-const allTemplates = [{ name: "MainTemplate", template: MainTemplate }];
+// All of the Agility Page Template Components that are in use in this site need to be registered here.
 
-export const getPageTemplate = (templateName:string) => {
+export const templateRegistry: PageTemplateRegistration[] = [
+	{
+		name: "MainTemplate",
+		zones: ["main-content-zone"],
+		load: () => import("./MainTemplate").then(m => m.default),
+	},
+	{
+		name: "TwoColumnTemplate",
+		zones: ["main-content-zone", "sidebar-zone"],
+		load: () => import("./TwoColumnTemplate").then(m => m.default),
+	},
+	{
+		//a single zone without the site header and footer, for campaign pages
+		name: "LandingTemplate",
+		zones: ["main-content-zone"],
+		chrome: false,
+		load: () => import("./MainTemplate").then(m => m.default),
+	},
+	{
+		name: "FullBleedTemplate",
+		zones: ["main-content-zone"],
+		fullBleed: true,
+		load: () => import("./MainTemplate").then(m => m.default),
+	},
+];
+
+const registrations = new Map<string, PageTemplateRegistration>(
+	templateRegistry.map((registration) => [registration.name.toLowerCase(), registration])
+);
+
+//the lazy component for each template, created the first time the template is needed
+const loadedTemplates = new Map<string, ComponentType<any>>();
+
+/**
+ * Get the registration of an Agility Page Template by name.
+ * @param templateName
+ * @returns the registration, or undefined if the template isn't registered
+ */
+export const getPageTemplateRegistration = (templateName: string) => {
+	if (!templateName) return undefined;
+	return registrations.get(templateName.toLowerCase());
+};
+
+/**
+ * Get the Agility Page Template by name.
+ * @param templateName
+ * @returns the template, or null if it isn't registered
+ */
+export const getPageTemplate = (templateName: string) => {
 	if (!templateName) return null;
-	const obj = allTemplates.find(
-		(m) => m.name.toLowerCase() === templateName.toLowerCase()
-	);
-	if (!obj) return null;
-	return obj?.template;
+	const key = templateName.toLowerCase();
+	const registration = registrations.get(key);
+	if (!registration) return null;
+
+	let template = loadedTemplates.get(key);
+	if (!template) {
+		template = dynamic(registration.load);
+		loadedTemplates.set(key, template);
+	}
+	return template;
 };
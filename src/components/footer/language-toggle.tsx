@@ -3,6 +3,10 @@
 import { usePathname, useRouter } from 'next/navigation'
 import { GlobeAltIcon, ChevronDownIcon } from '@heroicons/react/24/outline'
 import { type Locale, getLocaleFromPathname, removeLocaleFromPathname } from '@/lib/i18n/config'
+import { getLocaleMetadata } from '@/lib/i18n/localeMetadata'
+import { rememberLocaleChoice } from '@/lib/i18n/negotiateLocale'
+import { usePageAlternates } from '@/components/page-alternates'
+import clsx from 'clsx'
 import { useEffect, useState } from 'react'
 import {
   DropdownMenu,
@@ -17,20 +21,10 @@ interface LanguageToggleProps {
   defaultLocale: string
 }
 
-// Language labels
-const languageLabels: Record<string, string> = {
-  'en-us': 'English',
-  'fr': 'Français'
-}
-
-// Language flags or indicators
-const languageFlags: Record<string, string> = {
-  'en-us': '🇺🇸',
-  'fr': '🇫🇷'
-}
-
 export function LanguageToggle({ currentLocale, locales, defaultLocale }: LanguageToggleProps) {
   const pathname = usePathname()
+  // The current page in each locale - without these, the locale prefix of the current path is swapped
+  const alternates = usePageAlternates()
   const [mounted, setMounted] = useState(false)
 
   const router = useRouter()
@@ -44,6 +38,16 @@ export function LanguageToggle({ currentLocale, locales, defaultLocale }: Langua
     // Don't switch if already on this locale
     if (newLocale === currentLocale) return
 
+    // Remember the choice, so the visitor isn't sent back to their browser's language on the home page
+    rememberLocaleChoice(newLocale)
+
+    // Go to the same page in the new locale (its slug may be translated), or the fallback if it isn't translated
+    const alternate = alternates?.find(a => a.locale === newLocale)
+    if (alternate) {
+      router.push(alternate.url)
+      return
+    }
+
     // Get the locale from the current pathname
     const currentLocaleFromPath = getLocaleFromPathname(pathname, locales)
     let cleanPath = pathname
@@ -80,6 +84,7 @@ export function LanguageToggle({ currentLocale, locales, defaultLocale }: Langua
 
   // Get other locales (excluding current one)
   const otherLocales = locales.filter(locale => locale !== currentLocale)
+  const current = getLocaleMetadata(currentLocale)
   // Don't render until mounted to prevent hydration mismatch
   if (!mounted) {
     return (
@@ -95,22 +100,33 @@ export function LanguageToggle({ currentLocale, locales, defaultLocale }: Langua
       <DropdownMenuTrigger asChild>
         <button className="flex items-center gap-2 px-2 py-1 text-sm rounded-md transition-all duration-200 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700/50">
           <GlobeAltIcon className="h-4 w-4" />
-          <span className="text-xs">{languageFlags[currentLocale]}</span>
-          <span>{languageLabels[currentLocale]}</span>
+          <span className="text-xs">{current.flag}</span>
+          <span lang={current.hreflang} dir={current.dir}>{current.nativeName}</span>
           <ChevronDownIcon className="h-3 w-3 transition-transform duration-200 ui-state-open:rotate-180" />
         </button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" side="top" sideOffset={8}>
-        {otherLocales.map((locale) => (
-          <DropdownMenuItem
-            key={locale}
-            onClick={() => switchLanguage(locale)}
-            className="flex items-center gap-2 cursor-pointer"
-          >
-            <span className="text-xs">{languageFlags[locale]}</span>
-            <span>{languageLabels[locale]}</span>
-          </DropdownMenuItem>
-        ))}
+        {otherLocales.map((locale) => {
+          const metadata = getLocaleMetadata(locale)
+          const alternate = alternates?.find(a => a.locale === locale)
+          const isUnavailable = alternate?.available === false
+          return (
+            <DropdownMenuItem
+              key={locale}
+              onClick={() => switchLanguage(locale)}
+              className={clsx("flex items-center gap-2 cursor-pointer", isUnavailable && "opacity-60")}
+              title={isUnavailable
+                ? `${metadata.englishName} - this page isn't translated, go to the ${alternate.match === "home" ? "home page" : "nearest translated page"}`
+                : metadata.englishName}
+            >
+              <span className="text-xs">{metadata.flag}</span>
+              <span lang={metadata.hreflang} dir={metadata.dir}>{metadata.nativeName}</span>
+              {isUnavailable && (
+                <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">Not translated</span>
+              )}
+            </DropdownMenuItem>
+          )
+        })}
       </DropdownMenuContent>
     </DropdownMenu>
   )
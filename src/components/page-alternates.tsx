@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import type { LocaleAlternate } from '@/lib/cms-content/getLocaleAlternates'
+
+// The header and footer are rendered by the layout, which stays put while the pages change,
+// so each page publishes its locale alternates here for the language switcher to pick up.
+let currentAlternates: LocaleAlternate[] | undefined = undefined
+const listeners = new Set<() => void>()
+
+const setAlternates = (alternates: LocaleAlternate[] | undefined) => {
+  currentAlternates = alternates
+  listeners.forEach(listener => listener())
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * The current page in each locale, as published by the page's `PageAlternates`
+ */
+export function usePageAlternates(): LocaleAlternate[] | undefined {
+  return useSyncExternalStore(subscribe, () => currentAlternates, () => undefined)
+}
+
+/**
+ * Publishes the current page in each locale to the language switcher - renders nothing
+ */
+export function PageAlternates({ alternates }: { alternates: LocaleAlternate[] }) {
+  useEffect(() => {
+    setAlternates(alternates)
+    return () => setAlternates(undefined)
+  }, [alternates])
+
+  return null
+}
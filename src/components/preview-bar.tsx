@@ -5,8 +5,7 @@ import Image from "next/image"
 import React, { useState, useEffect, useRef } from "react"
 import { FaInfoCircle, FaGithub, FaEye, FaTimes, FaChevronDown, FaChevronUp, FaSpinner } from "react-icons/fa"
 import { Button } from "./button"
-import type { IAudience } from "@/lib/types/IAudience"
-import type { IRegion } from "@/lib/types/IRegion"
+import type { IAudience, IRegion } from "@/lib/types/generated"
 import { useAudienceRegionParams } from "@/lib/hooks/useAudienceRegionParams"
 
 
@@ -97,7 +96,7 @@ const PreviewBar = ({ isPreview, isDevelopmentMode, audiences = [], regions = []
 							<FaEye className="w-3 h-3 text-gray-500 dark:text-gray-200" />
 						</div>
 					)}
-					{selectedAudience &&
+					{selectedAudience?.icon &&
 						<div
 							title={`Audience: ${selectedAudience.name}`}
 							className="absolute -bottom-0.5 p-0.5 -right-0.5 dark:bg-gray-600 bg-gray-200 rounded-full flex items-center justify-center overflow-clip">
@@ -5,20 +5,27 @@ import type { Metadata } from 'next'
 import type React from 'react'
 import Script from 'next/script'
 
-export const metadata: Metadata = {
+export const rootMetadata: Metadata = {
   title: {
     template: '%s',
     default: 'Galaxy Tech'
   },
 }
 
-export default function RootLayout({
-  children,
-}: Readonly<{
+interface RootHtmlProps {
   children: React.ReactNode
-}>) {
+  //the BCP 47 language tag and text direction of the page
+  lang: string
+  dir: 'ltr' | 'rtl'
+}
+
+/**
+ * The html document shared by the root layouts - the locale layout and the docs layout each render it,
+ * so the locale layout can set the page's language and direction
+ */
+export function RootHtml({ children, lang, dir }: RootHtmlProps) {
   return (
-    <html lang="en" className="overflow-x-hidden" suppressHydrationWarning>
+    <html lang={lang} dir={dir} className="overflow-x-hidden" suppressHydrationWarning>
       <head>
         <link
           rel="stylesheet"
@@ -0,0 +1,54 @@
+import { Container } from '@/components/container'
+import { Navbar } from '@/components/header/navbar'
+import { Footer } from '@/components/footer/footer'
+import { getPageTemplateRegistration } from '@/components/agility-pages'
+import { getHeaderContent } from '@/lib/cms-content/getHeaderContent'
+import { getFooterContent } from '@/lib/cms-content/getFooterContent'
+import { type PageProps, getAgilityPage } from '@/lib/cms/getAgilityPage'
+import { locales, defaultLocale } from '@/lib/i18n/config'
+
+import type React from 'react'
+
+/**
+ * The site header and footer around a page.
+ */
+export async function SiteChrome({ locale, children }: { locale: string, children: React.ReactNode }) {
+
+  // get the header content
+  const header = await getHeaderContent({ locale })
+  const footer = await getFooterContent({ locale })
+
+  return (
+    <>
+      <Container>
+        {header &&
+          <Navbar header={header} locale={locale} />
+        }
+      </Container>
+      {children}
+      {footer && header &&
+        <Footer footerData={footer} logo={header.logo} siteName={header.siteName} locale={locale} locales={locales} defaultLocale={defaultLocale} />
+      }
+    </>
+  )
+}
+
+/**
+ * The site header and footer around an Agility page, unless its page template is registered with `chrome: false`.
+ * Rendered by the page's layout, so they're also around its not found and error pages.
+ */
+export async function PageChrome({ params, children }: { params: PageProps['params'], children: React.ReactNode }) {
+  const { locale } = await params
+
+  //if the page can't be loaded, the page itself shows the error
+  const agilityData = await getAgilityPage({ params }).catch(() => null)
+  const templateRegistration = getPageTemplateRegistration(agilityData?.pageTemplateName || '')
+
+  if (templateRegistration?.chrome === false) return children
+
+  return (
+    <SiteChrome locale={locale}>
+      {children}
+    </SiteChrome>
+  )
+}
@@ -1,28 +1,51 @@
-
-
-import allRedirects from "@/../data/redirections.json"
-import type { Redirection, RedirectionsMap } from "../cms/getRedirections"
+import "server-only";
+import { getCachedRedirections, type Redirection } from "../cms/getRedirections"
+import { type CompiledRedirections, compileRedirections, matchRedirection } from "./matchRedirection"
+
+interface Props {
+	path: string
+	//the query string of the incoming request (including the leading ?), preserved on the destination
+	search?: string
+}
+
+//how long to keep the redirections in memory before checking the data store for changes
+const REDIRECTIONS_TTL_MS = 5000
+
+//the redirections and the compiled regexes for the pattern redirections, refreshed from the store every few seconds
+let cached: (CompiledRedirections & { loadedAt: number }) | null = null
+
+const getRedirectionsFromStore = async () => {
+	if (!cached || Date.now() - cached.loadedAt > REDIRECTIONS_TTL_MS) {
+		const redirections = await getCachedRedirections()
+		if (!redirections) return cached
+
+		cached = {
+			...compileRedirections(redirections),
+			loadedAt: Date.now()
+		}
+	}
+	return cached
+}
 
 /**
  * Check if a path should be redirected.
- * Uses a bloom filter to quickly check if the path is in the list of redirections before actually getting the full list of redirects.
+ * Exact matches always win, then pattern redirections (`/old-blog/*`, `/team/:member`) are tried
+ * in precedence order: longest literal prefix first.
  * Inspired by this: https://nextjs.org/docs/app/building-your-application/routing/redirecting#managing-redirects-at-scale-advanced
  * @param param0
- * @returns
+ * @returns the matched redirection with its destination resolved, or null
  */
-export const checkRedirect = async ({ path }: { path: string }): Promise<Redirection | null> => {
+export const checkRedirect = async ({ path, search }: Props): Promise<Redirection | null> => {
 
 	//if the path is the root, obviously don't redirect
 	if (path === "/") return null
 
 
 	//get the redirections
-	const redirections = allRedirects as RedirectionsMap
-	if (!redirections) return null
-
+	const current = await getRedirectionsFromStore()
+	if (!current) return null
 
-	const redirection = redirections.items[path.toLowerCase()]
 
-	return redirection || null
+	return matchRedirection(current, path, search)
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+import redirectFilterJson from "@/../data/redirections-bloom-filter.json"
+import type { Redirection } from "../cms/getRedirections"
+import { getPathFilterKeys, matchesRootPattern } from "./redirectFilterKeys"
+import { parseRedirectFilter, type RedirectFilter } from "./redirectFilter"
+
+interface Props {
+	path: string
+	search?: string
+	//the origin of the current request, used to call the redirect api route
+	origin: string
+}
+
+//how long to use the current bloom filter before checking the data store for a new one
+const FILTER_TTL_MS = 10000
+
+//the deserialized bloom filter - starts with the one bundled at build time, then refreshed from the data store
+let redirectFilter: RedirectFilter | null = null
+let filterLoadedAt = 0
+
+const getRedirectFilter = async (origin: string) => {
+	if (!redirectFilter) {
+		redirectFilter = parseRedirectFilter(redirectFilterJson)
+		if (!redirectFilter) console.error("The bundled redirect filter isn't valid - run the prebuild step to regenerate it")
+		filterLoadedAt = Date.now()
+	}
+
+	if (Date.now() - filterLoadedAt > FILTER_TTL_MS) {
+		//don't retry on every request if the store is unavailable
+		filterLoadedAt = Date.now()
+		try {
+			const res = await fetch(new URL("/api/redirect/filter", origin), { cache: "no-store" })
+			if (res.ok) {
+				//keep the current filter if the stored one isn't valid
+				redirectFilter = parseRedirectFilter(await res.json()) || redirectFilter
+			}
+		} catch (error) {
+			console.error("Error refreshing redirect filter", error)
+		}
+	}
+
+	return redirectFilter
+}
+
+/**
+ * Check if a path should be redirected, from middleware.
+ * Only the bloom filter is bundled with middleware - the full list of redirections is loaded
+ * by the `/api/redirect` route, and only when the filter says there's a probable match.
+ * The filter is refreshed from the data store every few seconds so new redirections are picked up without a rebuild.
+ * Inspired by this: https://nextjs.org/docs/app/building-your-application/routing/redirecting#managing-redirects-at-scale-advanced
+ * @param param0
+ * @returns the matched redirection with its destination resolved, or null
+ */
+export const checkRedirectFilter = async ({ path, search, origin }: Props): Promise<Redirection | null> => {
+
+	//if the path is the root, obviously don't redirect
+	if (path === "/") return null
+
+	try {
+		const filter = await getRedirectFilter(origin)
+		if (!filter) return null
+
+		const isProbableRedirect = matchesRootPattern(path, filter.rootPatternPrefixes)
+			|| getPathFilterKeys(path).some(key => filter.bloomFilter.has(key))
+
+		if (!isProbableRedirect) return null
+
+		//probable hit - check the full list of redirections (this may still be a false positive)
+		const url = new URL("/api/redirect", origin)
+		url.searchParams.set("path", path)
+		if (search) url.searchParams.set("search", search)
+
+		const res = await fetch(url)
+		if (!res.ok) return null
+
+		return await res.json() as Redirection
+
+	} catch (error) {
+		console.error("Error checking redirect filter", error)
+	}
+
+	return null
+}
@@ -1,6 +1,6 @@
 import { type ContentList, type ContentItem } from "@agility/content-fetch"
 import { getContentList } from "@/lib/cms/getContentList"
-import { type IAudience } from "../types/IAudience"
+import { type IAudience } from "../types/generated"
 
 interface LoadAudiencesProp {
 	locale: string
@@ -0,0 +1,71 @@
+import { getAllContentListItems } from "@/lib/cms/getContentList"
+import { type IAuthor } from "../types/generated"
+import { withUniqueSlugs } from "@/lib/utils/slugify"
+import { locales } from "@/lib/i18n/config"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import type { LocaleAlternate } from "./getLocaleAlternates"
+
+export interface IAuthorProfile extends IAuthor {
+	contentID: number
+	//for author urls, e.g. `/blog/author/jane-doe`
+	slug: string
+}
+
+interface LoadAuthorsProp {
+	locale: string
+}
+
+/**
+ * Get the blog post authors, sorted by name, with a slug for each one worked out from their name (see withUniqueSlugs).
+ * @param param0
+ * @returns
+ */
+export const getAuthorListing = async ({ locale }: LoadAuthorsProp): Promise<IAuthorProfile[]> => {
+
+	try {
+		// get authors...
+		const rawAuthors = await getAllContentListItems<IAuthor>({
+			referenceName: "authors",
+			languageCode: locale,
+			locale
+		})
+
+		const authors = rawAuthors.map(item => ({ ...item.fields, contentID: item.contentID }))
+
+		return withUniqueSlugs(authors, author => author.name)
+			.sort((a, b) => a.name.localeCompare(b.name, locale))
+
+	} catch (error) {
+		throw new Error(`Error loading data for AuthorListing: ${error}`)
+	}
+}
+
+/**
+ * Get the url of an author's page, e.g. `/blog/author/jane-doe` or `/fr/blog/author/jane-doe`
+ * @param slug
+ * @param locale
+ * @returns
+ */
+export const getAuthorUrl = (slug: string, locale: string) => localizeUrl(`/blog/author/${slug}`, locale)
+
+/**
+ * Get the url of an author's page in every locale, for the language switcher and hreflang alternates.
+ * Authors are matched by contentID - a locale without the author falls back to its home page.
+ * @param param0
+ * @returns
+ */
+export const getAuthorAlternates = async ({ authorID }: { authorID: number }): Promise<LocaleAlternate[]> => {
+
+	return await Promise.all(locales.map(async (locale): Promise<LocaleAlternate> => {
+		let author: IAuthorProfile | undefined = undefined
+		try {
+			author = (await getAuthorListing({ locale })).find(a => a.contentID === authorID)
+		} catch (error) {
+			console.warn("Could not load the authors for locale:", locale, error)
+		}
+
+		return author
+			? { locale, url: getAuthorUrl(author.slug, locale), available: true, match: "page" }
+			: { locale, url: localizeUrl("/", locale), available: false, match: "home" }
+	}))
+}
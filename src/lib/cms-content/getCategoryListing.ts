@@ -0,0 +1,39 @@
+import { getAllContentListItems } from "@/lib/cms/getContentList"
+import { type ICategory } from "../types/generated"
+import { withUniqueSlugs } from "@/lib/utils/slugify"
+
+export interface ICategoryMin {
+	contentID: number
+	name: string
+	//for category urls, e.g. `/blog?category=product-news`
+	slug: string
+}
+
+interface LoadCategoriesProp {
+	locale: string
+}
+
+/**
+ * Get the blog post categories, sorted by name, with a slug for each one worked out from its name (see withUniqueSlugs).
+ * @param param0
+ * @returns
+ */
+export const getCategoryListing = async ({ locale }: LoadCategoriesProp): Promise<ICategoryMin[]> => {
+
+	try {
+		// get categories...
+		const rawCategories = await getAllContentListItems<ICategory>({
+			referenceName: "categories",
+			languageCode: locale,
+			locale
+		})
+
+		const categories = rawCategories.map(item => ({ contentID: item.contentID, name: item.fields.name }))
+
+		return withUniqueSlugs(categories, category => category.name)
+			.sort((a, b) => a.name.localeCompare(b.name, locale))
+
+	} catch (error) {
+		throw new Error(`Error loading data for CategoryListing: ${error}`)
+	}
+}
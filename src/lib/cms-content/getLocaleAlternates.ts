@@ -0,0 +1,112 @@
+import { getSitemapFlat } from "@/lib/cms/getSitemapFlat"
+import { defaultLocale, locales } from "@/lib/i18n/config"
+import { getLocaleMetadata } from "@/lib/i18n/localeMetadata"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import { toAbsoluteUrl } from "@/lib/utils/siteUrl"
+import type { SitemapNode } from "@/lib/types/SitemapNode"
+
+/**
+ * Where the language switcher should go for a locale.
+ */
+export interface LocaleAlternate {
+	locale: string
+	url: string
+	//false when the current page isn't translated into the locale, and the url is a fallback
+	available: boolean
+	//how the url was found: the same page, its nearest translated ancestor, or the locale's home page
+	match: "page" | "ancestor" | "home"
+}
+
+interface Props {
+	//the page being viewed
+	pageID: number
+	//the content item of a dynamic page
+	contentID?: number
+	path: string
+	locale: string
+	channelName: string
+}
+
+type Sitemap = { [path: string]: SitemapNode }
+
+const isSamePage = (node: SitemapNode, pageID: number, contentID?: number) => {
+	return node.pageID === pageID && (node.contentID || 0) === (contentID || 0) && !node.isFolder && !node.redirect
+}
+
+/**
+ * Get the url of a sitemap node in its locale - the first page in the sitemap is the home page.
+ */
+const getNodeUrl = (sitemap: Sitemap, node: SitemapNode, locale: string) => {
+	const isHome = Object.values(sitemap)[0]?.path === node.path
+	return localizeUrl(isHome ? "/" : node.path, locale)
+}
+
+/**
+ * Get the parent paths of a path, nearest first, e.g. `/blog/2025/post` => `/blog/2025`, `/blog`.
+ */
+const getAncestorPaths = (path: string) => {
+	const segments = path.split("/").filter(Boolean)
+	return segments.slice(0, -1).map((_, i) => `/${segments.slice(0, segments.length - 1 - i).join("/")}`)
+}
+
+/**
+ * Find the equivalent of the current page in every configured locale, by its pageID (and contentID for dynamic pages)
+ * rather than its path, since slugs can be translated.
+ * If a page isn't translated, fall back to its nearest translated ancestor, then the locale's home page.
+ * @param param0
+ * @returns
+ */
+export const getLocaleAlternates = async ({ pageID, contentID, path, locale, channelName }: Props): Promise<LocaleAlternate[]> => {
+
+	const sitemaps: { [locale: string]: Sitemap | null } = {}
+	await Promise.all(locales.map(async (l) => {
+		try {
+			sitemaps[l] = await getSitemapFlat({ channelName, languageCode: l })
+		} catch (error) {
+			console.warn("Could not load the sitemap for locale alternates:", l, error)
+			sitemaps[l] = null
+		}
+	}))
+
+	const currentSitemap = sitemaps[locale] || {}
+
+	return locales.map((targetLocale): LocaleAlternate => {
+		const sitemap = sitemaps[targetLocale]
+		const home: LocaleAlternate = { locale: targetLocale, url: localizeUrl("/", targetLocale), available: false, match: "home" }
+		if (!sitemap) return home
+
+		const nodes = Object.values(sitemap)
+		const node = nodes.find(n => isSamePage(n, pageID, contentID))
+		if (node) return { locale: targetLocale, url: getNodeUrl(sitemap, node, targetLocale), available: true, match: "page" }
+
+		for (const ancestorPath of getAncestorPaths(path)) {
+			const ancestor = currentSitemap[ancestorPath]
+			if (!ancestor || ancestor.isFolder) continue
+
+			const translated = nodes.find(n => isSamePage(n, ancestor.pageID, ancestor.contentID))
+			if (translated) return { locale: targetLocale, url: getNodeUrl(sitemap, translated, targetLocale), available: false, match: "ancestor" }
+		}
+
+		return home
+	})
+}
+
+/**
+ * Get the hreflang alternates for a page's metadata, from the locales it's translated into.
+ * Only worth listing when there's more than one version of the page, and `x-default` points to the default locale.
+ * @param alternates
+ * @returns the absolute url of each translation by hreflang, or undefined if there's only one
+ */
+export const getHreflangLanguages = (alternates: LocaleAlternate[]) => {
+	const translations = alternates.filter(alternate => alternate.match === "page")
+	if (translations.length < 2) return undefined
+
+	const languages: { [hreflang: string]: string } = {}
+	for (const alternate of translations) {
+		languages[getLocaleMetadata(alternate.locale).hreflang] = toAbsoluteUrl(alternate.url)
+	}
+	const defaultAlternate = translations.find(alternate => alternate.locale === defaultLocale)
+	if (defaultAlternate) languages["x-default"] = toAbsoluteUrl(defaultAlternate.url)
+
+	return languages
+}
@@ -0,0 +1,62 @@
+import type { ApiClientInstance, Page } from "@agility/content-fetch"
+import type { SitemapNode } from "../types/SitemapNode"
+
+interface Props {
+	agilityClient: ApiClientInstance
+	sitemapFlat: { [path: string]: SitemapNode }
+	contentID: number
+	languageCode: string
+	//the most pages to check, in sitemap order - each one is a request
+	maxPages?: number
+}
+
+//how many pages to request at once
+const BATCH_SIZE = 10
+
+/**
+ * Find the sitemap nodes for every page that renders a content item as a component in one of its zones.
+ * Dynamic pages share the page of their template, so every node for a matching page is returned.
+ * Only used when there's no dependency graph, since it requests every page it checks.
+ * @param param0
+ * @returns
+ */
+export const getPagesWithContent = async ({ agilityClient, sitemapFlat, contentID, languageCode, maxPages }: Props): Promise<SitemapNode[]> => {
+
+	const nodes = Object.values(sitemapFlat).filter(node => !node.isFolder && node.pageID > 0)
+	let pageIDs = Array.from(new Set(nodes.map(node => node.pageID)))
+
+	if (maxPages !== undefined && pageIDs.length > maxPages) {
+		console.warn(`Only checking the first ${maxPages} of ${pageIDs.length} pages for content item ${contentID} - set up the KV store so the dependency graph is recorded`)
+		pageIDs = pageIDs.slice(0, maxPages)
+	}
+
+	const matchingPageIDs = new Set<number>()
+
+	for (let i = 0; i < pageIDs.length; i += BATCH_SIZE) {
+		const batch = pageIDs.slice(i, i + BATCH_SIZE)
+
+		const pages = await Promise.all(batch.map(async (pageID) => {
+			try {
+				return await agilityClient.getPage({ pageID, languageCode, contentLinkDepth: 0 }) as Page
+			} catch (error) {
+				console.warn("Could not load page to check for content:", pageID, error)
+				return null
+			}
+		}))
+
+		pages.forEach((page) => {
+			if (!page?.zones) return
+
+			const hasContent = Object.values(page.zones).some(zone => (zone || []).some(({ item }) => {
+				if (!item) return false
+				//modules come back as a ContentItem (contentID) or a ContentReference (contentid) depending on link depth
+				const itemContentID = 'contentID' in item ? item.contentID : 'contentid' in item ? item.contentid : null
+				return itemContentID === contentID
+			}))
+
+			if (hasContent) matchingPageIDs.add(page.pageID)
+		})
+	}
+
+	return nodes.filter(node => matchingPageIDs.has(node.pageID))
+}
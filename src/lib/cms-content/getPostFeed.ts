@@ -0,0 +1,127 @@
+import { Feed } from "feed"
+import { getHeaderContent } from "./getHeaderContent"
+import { getPostListing } from "./getPostListing"
+import { getCategoryListing } from "./getCategoryListing"
+import { getLocaleMetadata } from "@/lib/i18n/localeMetadata"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import { slugify } from "@/lib/utils/slugify"
+import { toAbsoluteUrl } from "@/lib/utils/siteUrl"
+
+/**
+ * full: each item has the whole post
+ * excerpt: each item has the first few sentences, and readers link through to the post
+ */
+export type FeedContentMode = "full" | "excerpt"
+
+interface Props {
+	locale: string
+	sitemap: string
+	//the slug of a category, for a feed of just its posts
+	category?: string
+	content?: FeedContentMode
+}
+
+//how many posts are in a feed
+const FEED_SIZE = 20
+
+//where the blog and its feeds live, before localizing
+const BLOG_PATH = "/blog"
+
+/**
+ * Get the absolute URLs of the RSS, Atom and JSON feeds for a locale
+ * @param locale
+ * @param options a category and content mode, added to the query string
+ * @returns
+ */
+export const getPostFeedUrls = (locale: string, { category, content = "full" }: Pick<Props, "category" | "content"> = {}) => {
+	const query = new URLSearchParams({
+		...(category && { category }),
+		...(content !== "full" && { content })
+	}).toString()
+	const feedUrl = (file: string) => `${toAbsoluteUrl(localizeUrl(`${BLOG_PATH}/${file}`, locale))}${query ? `?${query}` : ""}`
+
+	return {
+		rss: feedUrl("feed.xml"),
+		atom: feedUrl("atom.xml"),
+		json: feedUrl("feed.json"),
+	}
+}
+
+/**
+ * Get the feed of the latest blog posts in a locale, to output as RSS, Atom or JSON Feed.
+ * The posts come from `getPostListing`, so the feed is revalidated with the `posts` content list.
+ * @param param0
+ * @returns the feed, or null if there's no such category
+ */
+export const getPostFeed = async ({ locale, sitemap, category, content = "full" }: Props): Promise<Feed | null> => {
+
+	let categoryName: string | null = null
+	if (category) {
+		const categories = await getCategoryListing({ locale })
+		categoryName = categories.find(c => c.slug === category)?.name || null
+		if (!categoryName) return null
+	}
+
+	const { posts } = await getPostListing({
+		locale,
+		sitemap,
+		skip: 0,
+		take: FEED_SIZE,
+		includeContent: content === "full",
+		category
+	})
+
+	const feedPosts = posts.filter(post => post.url !== "#")
+
+	const header = await getHeaderContent({ locale })
+	const siteName = header?.siteName || "Company"
+
+	const blogUrl = toAbsoluteUrl(localizeUrl(BLOG_PATH, locale))
+	const feedLinks = getPostFeedUrls(locale, { category, content })
+
+	const feed = new Feed({
+		id: feedLinks.rss,
+		title: categoryName ? `${siteName} Blog - ${categoryName}` : `${siteName} Blog`,
+		description: categoryName ? `The latest ${categoryName} posts from ${siteName}` : `The latest posts from ${siteName}`,
+		link: blogUrl,
+		language: getLocaleMetadata(locale).hreflang,
+		image: header?.logo?.url,
+		favicon: toAbsoluteUrl("/favicon.ico"),
+		updated: feedPosts.length > 0 ? new Date(feedPosts[0].postDate) : undefined,
+		generator: "Agility CMS",
+		copyright: `© ${new Date().getFullYear()} ${siteName}`,
+		feedLinks,
+	})
+
+	feedPosts.forEach((post) => {
+		const url = toAbsoluteUrl(post.url)
+
+		feed.addItem({
+			id: url,
+			guid: url,
+			title: post.title,
+			link: url,
+			date: new Date(post.postDate),
+			description: post.excerpt,
+			content: content === "full" ? post.content : undefined,
+			category: [{ name: post.category, term: post.categorySlug }],
+			author: post.author ? [{ name: post.author }] : undefined,
+			image: post.image?.url,
+		})
+	})
+
+	return feed
+}
+
+/**
+ * Read the feed options from a feed request's query string: `?category=news&content=excerpt`
+ * @param searchParams
+ * @returns
+ */
+export const getPostFeedOptions = (searchParams: URLSearchParams): Pick<Props, "category" | "content"> => {
+	const category = searchParams.get("category")
+	return {
+		category: category ? slugify(category) : undefined,
+		content: searchParams.get("content") === "excerpt" ? "excerpt" : "full"
+	}
+}
@@ -0,0 +1,238 @@
+import { cache } from "react"
+import { unstable_cache } from "next/cache"
+import { getContentList } from "@/lib/cms/getContentList"
+import { getSitemapFlat } from "@/lib/cms/getSitemapFlat"
+import { cacheTags, getCacheDuration } from "@/lib/cms/cachePolicy"
+import { recordDependency } from "@/lib/cms/dependencyGraph"
+import { getAgilityMode } from "@/lib/cms/getAgilitySDK"
+import { type IPost } from "../types/generated"
+import { type IPostMin, resolvePostUrls, toPostMin } from "./getPostListing"
+import { type ITagMin, getTagListing } from "./getTagListing"
+import { getCategoryListing } from "./getCategoryListing"
+import { getAuthorListing } from "./getAuthorListing"
+
+export interface IPostIndexEntry extends IPostMin {
+	//the contentID of the post's category, if it has one
+	categoryID: number | null
+	//the contentIDs of the post's tags
+	tagIDs: number[]
+}
+
+export interface ITagCount extends ITagMin {
+	//how many posts have the tag
+	count: number
+}
+
+interface LoadIndexProp {
+	sitemap: string
+	locale: string
+}
+
+//posts per request - without their linked items, so each response stays well under next.js's 2MB fetch cache limit
+const INDEX_PAGE_SIZE = 100
+
+//the content lists the index is built from
+const INDEX_REFERENCE_NAMES = ["posts", "categories", "authors"]
+
+//how much a shared tag and a shared category count towards a related post's score
+const TAG_WEIGHT = 2
+const CATEGORY_WEIGHT = 1
+
+/**
+ * Get the contentIDs in a linked field, from its value field (a comma separated list) or the linked items.
+ */
+const getLinkedIDs = (valueField: unknown, items: ({ contentID?: number, contentid?: number } | null | undefined)[] | null | undefined) => {
+	if (typeof valueField === "string" && valueField.trim() !== "") {
+		return valueField.split(",").map(id => parseInt(id, 10)).filter(id => !isNaN(id) && id > 0)
+	}
+	//linked items come back as a ContentItem (contentID) or a ContentReference (contentid) depending on link depth
+	return (items || []).map(item => item?.contentID || item?.contentid).filter((id): id is number => !!id)
+}
+
+/**
+ * Load every post in a locale, newest first.
+ * The posts are loaded without their linked items - the category and author come from their own lists instead.
+ */
+const loadPostIndex = async (sitemap: string, locale: string): Promise<IPostIndexEntry[]> => {
+
+	try {
+		// get sitemap, categories and authors...
+		const [sitemapNodes, categories, authors] = await Promise.all([
+			getSitemapFlat({ channelName: sitemap, languageCode: locale }),
+			getCategoryListing({ locale }),
+			getAuthorListing({ locale })
+		])
+		const categoriesByID = new Map(categories.map(category => [category.contentID, category]))
+		const authorsByID = new Map(authors.map(author => [author.contentID, author]))
+
+		// get all the posts, a page at a time...
+		const rawPosts: any[] = []
+		let totalCount = 0
+		do {
+			const list = await getContentList<IPost>({
+				referenceName: "posts",
+				languageCode: locale,
+				contentLinkDepth: 0,
+				take: INDEX_PAGE_SIZE,
+				skip: rawPosts.length,
+				locale,
+				sort: "fields.postDate",
+				direction: "desc"
+			})
+			if (list.items.length === 0) break
+			rawPosts.push(...list.items)
+			totalCount = list.totalCount
+		} while (rawPosts.length < totalCount)
+
+		// resolve dynamic urls
+		const dynamicUrls = resolvePostUrls(sitemapNodes, rawPosts)
+
+		return rawPosts.map((post: any) => {
+			const categoryID = getLinkedIDs(post.fields.category_ValueField, [post.fields.category])[0] || null
+			const authorID = getLinkedIDs(post.fields.author_ValueField, [post.fields.author])[0]
+			const category = categoryID ? categoriesByID.get(categoryID) : undefined
+			const author = authorID ? authorsByID.get(authorID) : undefined
+
+			//fill in the linked items toPostMin reads from
+			const fields = {
+				...post.fields,
+				category: category ? { contentID: category.contentID, fields: { name: category.name } } : null,
+				author: author ? { contentID: author.contentID, fields: author } : null
+			}
+
+			return {
+				...toPostMin({ ...post, fields }, dynamicUrls, locale, false, { categories: categoriesByID, authors: authorsByID }),
+				categoryID,
+				tagIDs: getLinkedIDs(post.fields.tags_ValueField, Array.isArray(post.fields.tags) ? post.fields.tags : [])
+			}
+		})
+
+	} catch (error) {
+		throw new Error(`Error loading data for PostIndex: ${error}`)
+	}
+}
+
+/**
+ * Get every post in a locale, newest first, with the IDs of its category and tags - for the tag pages, tag cloud and related posts.
+ * The index is built once and cached until the posts, categories, authors or sitemap change (or the posts' cache duration passes),
+ * rather than caching every page of posts it's built from.
+ * @param sitemap
+ * @param locale
+ * @returns
+ */
+export const getPostIndex = cache(async (sitemap: string, locale: string): Promise<IPostIndexEntry[]> => {
+
+	//the index is cached outside of the render, so record what the page depends on here
+	INDEX_REFERENCE_NAMES.forEach(referenceName => recordDependency({ referenceName }))
+
+	//preview and live content are cached separately
+	const mode = await getAgilityMode()
+
+	return await unstable_cache(
+		() => loadPostIndex(sitemap, locale),
+		["agility-post-index", mode, sitemap, locale],
+		{
+			tags: [...INDEX_REFERENCE_NAMES.map(referenceName => cacheTags.contentList(referenceName, locale)), cacheTags.sitemapFlat(locale)],
+			revalidate: getCacheDuration("posts")
+		}
+	)()
+})
+
+interface LoadTaggedPostsProp extends LoadIndexProp {
+	//the slug of the tag
+	tag: string
+	skip: number
+	take: number
+}
+
+/**
+ * Get a page of the posts with a tag, newest first.
+ * @param param0
+ * @returns the tag and its posts, or null if there's no such tag
+ */
+export const getTaggedPosts = async ({ sitemap, locale, tag, skip, take }: LoadTaggedPostsProp) => {
+
+	const tags = await getTagListing({ locale })
+	const selectedTag = tags.find(t => t.slug === tag)
+	if (!selectedTag) return null
+
+	const posts = (await getPostIndex(sitemap, locale)).filter(post => post.tagIDs.includes(selectedTag.contentID))
+
+	return {
+		tag: selectedTag,
+		totalCount: posts.length,
+		posts: posts.slice(skip, skip + take) as IPostMin[]
+	}
+}
+
+/**
+ * Get the tags that are in use, with how many posts have each one.
+ * @param param0
+ * @returns the tags sorted by title
+ */
+export const getTagCounts = async ({ sitemap, locale }: LoadIndexProp): Promise<ITagCount[]> => {
+
+	const [tags, posts] = await Promise.all([
+		getTagListing({ locale }),
+		getPostIndex(sitemap, locale)
+	])
+
+	const counts = new Map<number, number>()
+	posts.forEach(post => post.tagIDs.forEach(id => counts.set(id, (counts.get(id) || 0) + 1)))
+
+	return tags
+		.map(tag => ({ ...tag, count: counts.get(tag.contentID) || 0 }))
+		.filter(tag => tag.count > 0)
+}
+
+interface LoadPostTagsProp extends LoadIndexProp {
+	contentID: number
+}
+
+/**
+ * Get the tags of a post, sorted by title.
+ * @param param0
+ * @returns
+ */
+export const getPostTags = async ({ sitemap, locale, contentID }: LoadPostTagsProp): Promise<ITagMin[]> => {
+
+	const [tags, posts] = await Promise.all([
+		getTagListing({ locale }),
+		getPostIndex(sitemap, locale)
+	])
+
+	const tagIDs = posts.find(post => post.contentID === contentID)?.tagIDs || []
+	return tags.filter(tag => tagIDs.includes(tag.contentID))
+}
+
+interface LoadRelatedPostsProp extends LoadPostTagsProp {
+	take: number
+}
+
+/**
+ * Get the posts most related to a post: ranked by the tags they share with it, then whether they're in the same category.
+ * Posts with nothing in common are left out, and ties go to the newest post.
+ * @param param0
+ * @returns
+ */
+export const getRelatedPosts = async ({ sitemap, locale, contentID, take }: LoadRelatedPostsProp): Promise<IPostMin[]> => {
+
+	const posts = await getPostIndex(sitemap, locale)
+	const post = posts.find(p => p.contentID === contentID)
+	if (!post) return []
+
+	const tagIDs = new Set(post.tagIDs)
+
+	return posts
+		.filter(other => other.contentID !== contentID && other.url !== "#")
+		.map(other => ({
+			related: other,
+			score: other.tagIDs.filter(id => tagIDs.has(id)).length * TAG_WEIGHT
+				+ (post.categoryID && other.categoryID === post.categoryID ? CATEGORY_WEIGHT : 0)
+		}))
+		.filter(({ score }) => score > 0)
+		//the sort is stable, and the posts are already newest first
+		.sort((a, b) => b.score - a.score)
+		.slice(0, take)
+		.map(({ related }) => related)
+}
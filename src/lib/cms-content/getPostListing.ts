@@ -1,22 +1,42 @@
-import { DateTime } from "luxon"
-import { type ContentList } from "@agility/content-fetch"
+import { type ContentItem, type ContentList, type Filter } from "@agility/content-fetch"
 import { type ImageField } from "@agility/nextjs"
 import { getContentList } from "@/lib/cms/getContentList"
 import { getSitemapFlat } from "@/lib/cms/getSitemapFlat"
-import { type IPost } from "../types/IPost"
-import { defaultLocale, locales } from "@/lib/i18n/config"
+import { type IPost } from "../types/generated"
+import { getCategoryListing } from "./getCategoryListing"
+import { getAuthorListing } from "./getAuthorListing"
+import { formatLocaleDate } from "@/lib/i18n/localeMetadata"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
 
 export interface IPostMin {
 
 	contentID: number
 	title: string
+	//formatted for the locale
 	date: string
+	//the raw post date from Agility
+	postDate: string
 	url: string
 	category: string
+	//the slug of the category, for category urls
+	categorySlug: string
 	image: ImageField
 	author: string
+	//the slug of the author, for author urls
+	authorSlug: string
 	authorImage: ImageField | null
 	excerpt: string
+	//the full HTML content, only when the listing is loaded with `includeContent`
+	content?: string
+}
+
+/**
+ * The categories and authors by contentID, for the slugs of each post's category and author.
+ * The slugs come from their listings, so they match the category and author urls.
+ */
+export interface PostSlugs {
+	categories: Map<number, { slug: string }>
+	authors: Map<number, { slug: string }>
 }
 
 interface LoadPostsProp {
@@ -24,6 +44,78 @@ interface LoadPostsProp {
 	locale: string
 	skip: number
 	take: number
+	//include the full HTML content of each post (for feeds)
+	includeContent?: boolean
+	//the slug of a category, to only list its posts
+	category?: string
+	//the slug of an author, to only list their posts
+	author?: string
+	//posts to leave out, e.g. the featured posts shown above the listing
+	exclude?: Pick<IPostMin, "contentID" | "postDate">[]
+}
+
+/**
+ * Get the categories and authors for the slugs of the posts.
+ * @param locale
+ * @returns
+ */
+export const getPostSlugs = async (locale: string): Promise<PostSlugs> => {
+	const [categories, authors] = await Promise.all([
+		getCategoryListing({ locale }),
+		getAuthorListing({ locale })
+	])
+
+	return {
+		categories: new Map(categories.map(category => [category.contentID, category])),
+		authors: new Map(authors.map(author => [author.contentID, author]))
+	}
+}
+
+/**
+ * Convert a post to the fields the listings need, with its URL resolved from the sitemap.
+ */
+export const toPostMin = (post: any, dynamicUrls: { [contentID: number]: string }, locale: string, includeContent: boolean, slugs: PostSlugs): IPostMin => {
+
+	const categoryName = post.fields.category?.fields.name || "Uncategorized"
+	const author = post.fields.author?.fields.name || ""
+	const authorImage = post.fields.author?.fields.headShot || null
+	const date = formatLocaleDate(post.fields.postDate, locale)
+	const path = dynamicUrls[post.contentID]
+	const url = path ? localizeUrl(path, locale) : "#"
+
+	//to get the excerpt, we can use the first 250 characters of the post "content" field
+	//but we also have to convert it from HTML to plain text
+	//we also want to ensure we end on a complete sentence, so we will truncate it to the last period before the 250th character
+	//if there is no content, we will use an empty string
+	//and append "..." to the end
+	//this is a simple way to get an excerpt, but it may not be perfect
+	let excerpt = post.fields.content || ""
+	excerpt = excerpt.replace(/<[^>]*>/g, "") // remove HTML tags
+	if (excerpt.length > 250) {
+		const lastPeriodIndex = excerpt.lastIndexOf(".", 250)
+		if (lastPeriodIndex !== -1) {
+			excerpt = excerpt.substring(0, lastPeriodIndex + 1)
+		} else {
+			excerpt = excerpt.substring(0, 250) + "..."
+		}
+	}
+
+	return {
+		contentID: post.contentID,
+		title: post.fields.heading,
+		date,
+		postDate: post.fields.postDate,
+		url,
+		category: categoryName,
+		//empty if the category or author isn't in its listing, so there's no page to link to
+		categorySlug: slugs.categories.get(post.fields.category?.contentID)?.slug || "",
+		image: post.fields.image,
+		author,
+		authorSlug: slugs.authors.get(post.fields.author?.contentID)?.slug || "",
+		authorImage,
+		excerpt,
+		...(includeContent && { content: post.fields.content || "" })
+	}
 }
 
 /**
@@ -31,76 +123,72 @@ interface LoadPostsProp {
  * @param param0
  * @returns
  */
-export const getPostListing = async ({ sitemap, locale, skip, take }: LoadPostsProp) => {
+export const getPostListing = async ({ sitemap, locale, skip, take, includeContent = false, category, author, exclude = [] }: LoadPostsProp) => {
 
 
 	try {
 
+		// find the category to filter by - the category field stores the contentID of the linked category in its value field
+		let filters: Filter[] = []
+		if (category) {
+			const categories = await getCategoryListing({ locale })
+			const selectedCategory = categories.find(c => c.slug === category)
+			if (!selectedCategory) {
+				return { totalCount: 0, posts: [] as IPostMin[] }
+			}
+			filters.push({ property: "fields.category_ValueField", operator: "eq", value: `"${selectedCategory.contentID}"` })
+		}
 
+		// and the author, the same way
+		if (author) {
+			const authors = await getAuthorListing({ locale })
+			const selectedAuthor = authors.find(a => a.slug === author)
+			if (!selectedAuthor) {
+				return { totalCount: 0, posts: [] as IPostMin[] }
+			}
+			filters.push({ property: "fields.author_ValueField", operator: "eq", value: `"${selectedAuthor.contentID}"` })
+		}
 
-		// get sitemap...
+		// get sitemap and slugs...
 		let sitemapNodes = await getSitemapFlat({
 			channelName: sitemap,
 			languageCode: locale,
 		})
+		const slugs = await getPostSlugs(locale)
 
-		// get posts...
+		// get posts - with room for the ones to leave out...
 		let rawPosts: ContentList = await getContentList<IPost>({
 			referenceName: "posts",
 			languageCode: locale,
 			contentLinkDepth: 2,
-			take,
+			take: take + exclude.length,
 			skip,
 			locale,
 			sort: "fields.postDate",
-			direction: "desc"
-		})		// resolve dynamic urls
-		const dynamicUrls = resolvePostUrls(sitemapNodes, rawPosts.items)
-
-		const posts: IPostMin[] = rawPosts.items.map((post: any) => {
+			direction: "desc",
+			filters: filters.length > 0 ? filters : undefined
+		})
 
-			const category = post.fields.category?.fields.name || "Uncategorized"
-			const author = post.fields.author?.fields.name || ""
-			const authorImage = post.fields.author?.fields.headShot || null
-			const date = DateTime.fromJSDate(new Date(post.fields.postDate)).toFormat("LLL. dd, yyyy")
-			let url = dynamicUrls[post.contentID] || "#"
+		// leave out the excluded posts, and move the page along past the ones that are newer than it
+		let items = rawPosts.items
+		let totalCount = rawPosts.totalCount
+		if (exclude.length > 0) {
+			const excludedIDs = new Set(exclude.map(post => post.contentID))
+			const fetchedIDs = new Set(items.map(post => post.contentID))
+			const newestFetched = items[0] ? new Date(items[0].fields.postDate).getTime() : 0
+			const excludedBefore = exclude.filter(post => !fetchedIDs.has(post.contentID) && new Date(post.postDate).getTime() > newestFetched).length
 
-			if (locale !== defaultLocale) {
-				url = `/${locale}${url}`
-			}
+			items = items.filter(post => !excludedIDs.has(post.contentID)).slice(excludedBefore, excludedBefore + take)
+			totalCount = Math.max(0, totalCount - exclude.length)
+		}
 
-			//to get the excerpt, we can use the first 250 characters of the post "content" field
-			//but we also have to convert it from HTML to plain text
-			//we also want to ensure we end on a complete sentence, so we will truncate it to the last period before the 250th character
-			//if there is no content, we will use an empty string
-			//and append "..." to the end
-			//this is a simple way to get an excerpt, but it may not be perfect
-			let excerpt = post.fields.content || ""
-			excerpt = excerpt.replace(/<[^>]*>/g, "") // remove HTML tags
-			if (excerpt.length > 250) {
-				const lastPeriodIndex = excerpt.lastIndexOf(".", 250)
-				if (lastPeriodIndex !== -1) {
-					excerpt = excerpt.substring(0, lastPeriodIndex + 1)
-				} else {
-					excerpt = excerpt.substring(0, 250) + "..."
-				}
-			}
+		// resolve dynamic urls
+		const dynamicUrls = resolvePostUrls(sitemapNodes, items)
 
-			return {
-				contentID: post.contentID,
-				title: post.fields.heading,
-				date,
-				url,
-				category,
-				image: post.fields.image,
-				author,
-				authorImage,
-				excerpt
-			}
-		})
+		const posts = items.map((post: any) => toPostMin(post, dynamicUrls, locale, includeContent, slugs))
 
 		return {
-			totalCount: rawPosts.totalCount,
+			totalCount,
 			posts,
 		}
 	} catch (error) {
@@ -108,14 +196,75 @@ export const getPostListing = async ({ sitemap, locale, skip, take }: LoadPostsP
 	}
 }
 
-const resolvePostUrls = function (sitemap: any, posts: any) {
+interface LoadFeaturedPostsProp {
+	sitemap: string
+	locale: string
+	take: number
+	//posts picked in a linked "featured posts" list - otherwise the latest posts with the Featured flag are used
+	linkedPosts?: ContentItem<IPost>[] | null
+}
+
+/**
+ * Get the featured posts: the posts linked in a "featured posts" list, or the latest posts marked as Featured in Agility.
+ * @param param0
+ * @returns
+ */
+export const getFeaturedPosts = async ({ sitemap, locale, take, linkedPosts }: LoadFeaturedPostsProp): Promise<IPostMin[]> => {
+
+	try {
+
+		// get sitemap and slugs...
+		let sitemapNodes = await getSitemapFlat({
+			channelName: sitemap,
+			languageCode: locale,
+		})
+		const slugs = await getPostSlugs(locale)
+
+		let rawPosts: ContentItem<IPost>[] = (linkedPosts || []).filter(post => post?.fields)
+		if (rawPosts.length === 0) {
+			// get the latest featured posts...
+			const featuredList = await getContentList<IPost>({
+				referenceName: "posts",
+				languageCode: locale,
+				contentLinkDepth: 2,
+				take,
+				skip: 0,
+				locale,
+				sort: "fields.postDate",
+				direction: "desc",
+				filters: [{ property: "fields.isFeatured", operator: "eq", value: `"true"` }]
+			})
+			rawPosts = featuredList.items as ContentItem<IPost>[]
+		}
+
+		rawPosts = rawPosts.slice(0, take)
+
+		// resolve dynamic urls
+		const dynamicUrls = resolvePostUrls(sitemapNodes, rawPosts)
+
+		return rawPosts.map((post) => toPostMin(post, dynamicUrls, locale, false, slugs))
+
+	} catch (error) {
+		throw new Error(`Error loading data for FeaturedPosts: ${error}`)
+	}
+}
+
+/**
+ * Resolve the url of each post from the sitemap, by contentID.
+ * The sitemap is indexed once, so this stays quick for long lists of posts.
+ */
+export const resolvePostUrls = function (sitemap: any, posts: any) {
+	let sitemapPaths: { [contentID: number]: string } = {};
+	Object.keys(sitemap).forEach((path) => {
+		const contentID = sitemap[path].contentID;
+		if (contentID) sitemapPaths[contentID] = path;
+	});
+
 	let dynamicUrls: any = {};
 	posts.forEach((post: any) => {
-		Object.keys(sitemap).forEach((path) => {
-			if (sitemap[path].contentID === post.contentID) {
-				dynamicUrls[post.contentID] = path;
-			}
-		});
+		if (sitemapPaths[post.contentID]) {
+			dynamicUrls[post.contentID] = sitemapPaths[post.contentID];
+		}
 	});
 	return dynamicUrls;
 };
\ No newline at end of file
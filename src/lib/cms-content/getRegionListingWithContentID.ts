@@ -1,6 +1,6 @@
 import { type ContentList, type ContentItem } from "@agility/content-fetch"
 import { getContentList } from "@/lib/cms/getContentList"
-import { type IRegion } from "../types/IRegion"
+import { type IRegion } from "../types/generated"
 import { type RegionWithContentID, transformContentItemsWithContentID } from "../utils/audienceRegionUtils"
 
 interface LoadRegionsProp {
@@ -0,0 +1,204 @@
+import { unstable_cache } from "next/cache"
+import type { Page } from "@agility/content-fetch"
+import { getSitemapFlat } from "@/lib/cms/getSitemapFlat"
+import { getPage } from "@/lib/cms/getPage"
+import { contentClient } from "@/lib/cms/contentClient"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { getAgilityMode } from "@/lib/cms/getAgilitySDK"
+import { defaultLocale, locales } from "@/lib/i18n/config"
+import { getLocaleMetadata } from "@/lib/i18n/localeMetadata"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import { toAbsoluteUrl } from "@/lib/utils/siteUrl"
+import type { SitemapEntry } from "@/lib/utils/sitemapXml"
+import type { SitemapNode } from "@/lib/types/SitemapNode"
+
+interface Props {
+	channelName: string
+}
+
+//how many pages to request at once
+const BATCH_SIZE = 10
+
+//how many list items to request at once for their last modified dates - without linked content, to keep the responses small
+const LIST_PAGE_SIZE = 100
+
+/**
+ * Run a function over some values, a batch at a time.
+ */
+const mapInBatches = async <T, R>(values: T[], fn: (value: T) => Promise<R>): Promise<R[]> => {
+	const results: R[] = []
+	for (let i = 0; i < values.length; i += BATCH_SIZE) {
+		results.push(...await Promise.all(values.slice(i, i + BATCH_SIZE).map(fn)))
+	}
+	return results
+}
+
+const toDate = (value: Date | string | undefined) => {
+	if (!value) return undefined
+	const date = new Date(value)
+	return isNaN(date.getTime()) ? undefined : date
+}
+
+const getLatest = (...dates: (Date | undefined)[]) => dates.reduce<Date | undefined>((latest, date) => {
+	return date && (!latest || date > latest) ? date : latest
+}, undefined)
+
+/**
+ * Get the reference name of the list a dynamic page's items come from.
+ */
+const getDynamicListReferenceName = (page: Page | null | undefined) => {
+	const dynamic = (page as (Page & { dynamic?: { referenceName?: string } }) | null | undefined)?.dynamic
+	return dynamic?.referenceName || null
+}
+
+/**
+ * Get when each item in a content list was last modified, a page of the list at a time.
+ */
+const getListModifiedDates = async (referenceName: string, locale: string, items: Map<number, Date | undefined>) => {
+	let skip = 0
+	let totalCount = 0
+	do {
+		const list = await contentClient.getContentList({
+			referenceName,
+			languageCode: locale,
+			contentLinkDepth: 0,
+			take: LIST_PAGE_SIZE,
+			skip
+		}, {
+			tags: [cacheTags.contentList(referenceName, locale)],
+			referenceName
+		})
+		if (!list?.items?.length) break
+
+		list.items.forEach(item => items.set(item.contentID, toDate(item.properties?.modified)))
+		skip += list.items.length
+		totalCount = list.totalCount
+	} while (skip < totalCount)
+}
+
+/**
+ * Get when each page and dynamic content item in a locale was last modified.
+ * Pages are requested one at a time, but there's only one per dynamic page however many items it has -
+ * the items' dates come from the lists behind the dynamic pages instead.
+ * @returns the dates by pageID and by contentID
+ */
+const getModifiedDates = async (nodes: SitemapNode[], locale: string) => {
+	const pageIDs = Array.from(new Set(nodes.map(node => node.pageID)))
+
+	const pages = new Map<number, Date | undefined>()
+	const referenceNames = new Set<string>()
+	await mapInBatches(pageIDs, async (pageID) => {
+		try {
+			const page = await getPage({ pageID, languageCode: locale, contentLinkDepth: 0 })
+			pages.set(pageID, toDate(page?.properties?.modified))
+
+			const referenceName = getDynamicListReferenceName(page)
+			if (referenceName) referenceNames.add(referenceName)
+		} catch (error) {
+			console.warn("Could not load page for its sitemap last modified date:", pageID, error)
+		}
+	})
+
+	const items = new Map<number, Date | undefined>()
+	for (const referenceName of Array.from(referenceNames)) {
+		try {
+			await getListModifiedDates(referenceName, locale, items)
+		} catch (error) {
+			console.warn("Could not load content list for its sitemap last modified dates:", referenceName, error)
+		}
+	}
+
+	return { pages, items }
+}
+
+/**
+ * Work out the sitemap entries for every page in every locale, from each locale's flat sitemap.
+ * Folders, redirects and pages hidden from the sitemap in Agility are left out.
+ * Each entry lists the same page in the other locales (matched by pageID and contentID, since slugs can be translated),
+ * and is last modified when its page or, for dynamic pages, its content item was.
+ * @param param0
+ * @returns
+ */
+const buildSitemapEntries = async (channelName: string): Promise<SitemapEntry[]> => {
+
+	//the url of each page in each locale, by pageID and contentID
+	const pageUrls = new Map<string, { [locale: string]: string }>()
+	const localeEntries: { locale: string, key: string, entry: SitemapEntry }[] = []
+
+	for (const locale of locales) {
+		let sitemap: { [path: string]: SitemapNode } | null = null
+		try {
+			sitemap = await getSitemapFlat({ channelName, languageCode: locale })
+		} catch (error) {
+			console.warn("Could not load the sitemap for locale:", locale, error)
+		}
+		if (!sitemap) continue
+
+		const allNodes = Object.values(sitemap)
+		const nodes = allNodes.filter(node => !node.isFolder && !node.redirect && node.visible?.sitemap !== false)
+		const { pages, items } = await getModifiedDates(nodes, locale)
+
+		for (const node of nodes) {
+			//the first page in the sitemap is the home page
+			const isHome = allNodes[0]?.path === node.path
+			const url = toAbsoluteUrl(localizeUrl(isHome ? "/" : node.path, locale))
+			const key = `${node.pageID}:${node.contentID || 0}`
+
+			pageUrls.set(key, { ...pageUrls.get(key), [locale]: url })
+			localeEntries.push({
+				locale,
+				key,
+				entry: {
+					url,
+					lastModified: getLatest(pages.get(node.pageID), node.contentID ? items.get(node.contentID) : undefined)
+				}
+			})
+		}
+	}
+
+	return localeEntries.map(({ key, entry }) => {
+		const urls = pageUrls.get(key) || {}
+		const translated = Object.keys(urls)
+		//only worth listing when there's more than one version of the page
+		if (translated.length < 2) return entry
+
+		const alternates: { [hreflang: string]: string } = {}
+		for (const locale of translated) {
+			alternates[getLocaleMetadata(locale).hreflang] = urls[locale]
+		}
+		if (urls[defaultLocale]) alternates["x-default"] = urls[defaultLocale]
+
+		return { ...entry, alternates }
+	})
+}
+
+//the cached entries go through JSON, so their dates are strings
+type CachedSitemapEntry = Omit<SitemapEntry, "lastModified"> & { lastModified?: string }
+
+/**
+ * Get the sitemap entries for every page in every locale.
+ * Each entry lists the same page in the other locales (matched by pageID and contentID, since slugs can be translated),
+ * and is last modified when its page or, for dynamic pages, its content item was.
+ * @param param0
+ * @returns
+ */
+export const getSitemapEntries = async ({ channelName }: Props): Promise<SitemapEntry[]> => {
+	//preview and live content are cached separately, so unpublished pages never end up in the live sitemap
+	const mode = await getAgilityMode()
+
+	//the entries are worked out once and shared by the sitemap and every part of a split sitemap,
+	//until a page or dynamic page item is published (see the revalidate webhook) or an hour has passed
+	const entries = await unstable_cache(
+		async (): Promise<CachedSitemapEntry[]> => {
+			const built = await buildSitemapEntries(channelName)
+			return built.map(entry => ({ ...entry, lastModified: entry.lastModified?.toISOString() }))
+		},
+		["agility-sitemap-entries", mode, channelName],
+		{
+			tags: [cacheTags.sitemapEntries(), ...locales.map(locale => cacheTags.sitemapFlat(locale))],
+			revalidate: 3600
+		}
+	)()
+
+	return entries.map(entry => ({ ...entry, lastModified: entry.lastModified ? new Date(entry.lastModified) : undefined }))
+}
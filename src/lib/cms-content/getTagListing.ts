@@ -0,0 +1,73 @@
+import { getAllContentListItems } from "@/lib/cms/getContentList"
+import { type ITag } from "../types/generated"
+import { withUniqueSlugs } from "@/lib/utils/slugify"
+import { locales } from "@/lib/i18n/config"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import type { LocaleAlternate } from "./getLocaleAlternates"
+
+export interface ITagMin {
+	contentID: number
+	title: string
+	//for tag urls, e.g. `/blog/tag/next-js`
+	slug: string
+}
+
+interface LoadTagsProp {
+	locale: string
+}
+
+/**
+ * Get the blog post tags, sorted by title, with a slug for each one worked out from its title (see withUniqueSlugs).
+ * @param param0
+ * @returns
+ */
+export const getTagListing = async ({ locale }: LoadTagsProp): Promise<ITagMin[]> => {
+
+	try {
+		// get tags...
+		const rawTags = await getAllContentListItems<ITag>({
+			referenceName: "tags",
+			languageCode: locale,
+			locale
+		})
+
+		const tags = rawTags.map(item => ({ contentID: item.contentID, title: item.fields.title }))
+
+		return withUniqueSlugs(tags, tag => tag.title)
+			.sort((a, b) => a.title.localeCompare(b.title, locale))
+
+	} catch (error) {
+		throw new Error(`Error loading data for TagListing: ${error}`)
+	}
+}
+
+/**
+ * Get the url of a tag's page, e.g. `/blog/tag/next-js` or `/fr/blog/tag/next-js`
+ * @param slug
+ * @param locale
+ * @returns
+ */
+export const getTagUrl = (slug: string, locale: string) => localizeUrl(`/blog/tag/${slug}`, locale)
+
+/**
+ * Get the url of a tag's page in every locale, for the language switcher and hreflang alternates.
+ * Tags are matched by contentID, since their titles (and so their slugs) can be translated -
+ * a locale without the tag falls back to its home page.
+ * @param param0
+ * @returns
+ */
+export const getTagAlternates = async ({ tagID }: { tagID: number }): Promise<LocaleAlternate[]> => {
+
+	return await Promise.all(locales.map(async (locale): Promise<LocaleAlternate> => {
+		let tag: ITagMin | undefined = undefined
+		try {
+			tag = (await getTagListing({ locale })).find(t => t.contentID === tagID)
+		} catch (error) {
+			console.warn("Could not load the tags for locale:", locale, error)
+		}
+
+		return tag
+			? { locale, url: getTagUrl(tag.slug, locale), available: true, match: "page" }
+			: { locale, url: localizeUrl("/", locale), available: false, match: "home" }
+	}))
+}
@@ -0,0 +1,98 @@
+import type { Redirection, RedirectionPattern, RedirectionsMap } from "../cms/getRedirections"
+import { normalizeRedirectPath } from "./redirectFilterKeys"
+
+/**
+ * A RedirectionsMap with the regexes of its pattern redirections compiled, ready for matching.
+ */
+export interface CompiledRedirections {
+	redirections: RedirectionsMap
+	compiledPatterns: { pattern: RedirectionPattern, regex: RegExp }[]
+}
+
+/**
+ * Compile the regexes for the pattern redirections in a RedirectionsMap.
+ * @param redirections
+ * @returns
+ */
+export const compileRedirections = (redirections: RedirectionsMap): CompiledRedirections => {
+	return {
+		redirections,
+		compiledPatterns: (redirections.patterns || []).map(pattern => ({
+			pattern,
+			regex: new RegExp(pattern.regex, "i")
+		}))
+	}
+}
+
+/**
+ * Replace the $1 and :name placeholders in a destination url with the values captured from the path.
+ */
+const substituteCaptures = (destinationUrl: string, pattern: RedirectionPattern, match: RegExpExecArray) => {
+	let destination = destinationUrl
+
+	//replace the longest names first so :id doesn't clobber :idx
+	const captures = pattern.captures
+		.map((name, index) => ({ name, value: match[index + 1] || "" }))
+		.sort((a, b) => b.name.length - a.name.length)
+
+	captures.forEach(({ name, value }) => {
+		const placeholder = /^\d+$/.test(name) ? `$${name}` : `:${name}`
+		destination = destination.split(placeholder).join(value)
+	})
+
+	//clean up the empty segments left behind by an empty wildcard
+	if (destination.startsWith("/")) {
+		destination = destination.replace(/\/{2,}/g, "/")
+		if (destination.length > 1 && destination.endsWith("/")) destination = destination.slice(0, -1)
+	}
+
+	return destination
+}
+
+/**
+ * Carry the incoming query string over to the destination, unless the destination defines its own.
+ */
+const preserveQueryString = (destinationUrl: string, search?: string) => {
+	if (!search || search === "?" || destinationUrl.includes("?")) return destinationUrl
+
+	const hashIndex = destinationUrl.indexOf("#")
+	if (hashIndex === -1) return `${destinationUrl}${search}`
+
+	return `${destinationUrl.substring(0, hashIndex)}${search}${destinationUrl.substring(hashIndex)}`
+}
+
+/**
+ * Find the redirection for a path.
+ * Exact matches always win, then pattern redirections (`/old-blog/*`, `/team/:member`) are tried
+ * in precedence order: longest literal prefix first.
+ * @param compiled the compiled redirections
+ * @param path the path to match
+ * @param search the query string to preserve on the destination (including the leading ?)
+ * @returns the matched redirection with its destination resolved, or null
+ */
+export const matchRedirection = ({ redirections, compiledPatterns }: CompiledRedirections, path: string, search?: string): Redirection | null => {
+
+	const redirection = redirections.items[normalizeRedirectPath(path)]
+
+	if (redirection) {
+		return {
+			...redirection,
+			destinationUrl: preserveQueryString(redirection.destinationUrl, search)
+		}
+	}
+
+	//check the pattern based redirections
+	for (const { pattern, regex } of compiledPatterns) {
+		const match = regex.exec(path)
+		if (!match) continue
+
+		return {
+			id: pattern.id,
+			originUrl: pattern.originUrl,
+			statusCode: pattern.statusCode,
+			destinationUrl: preserveQueryString(substituteCaptures(pattern.destinationUrl, pattern, match), search)
+		}
+	}
+
+	return null
+}
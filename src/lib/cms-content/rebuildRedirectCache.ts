@@ -1,52 +1,88 @@
 
 import { ScalableBloomFilter } from 'bloom-filters'
-import fs from 'fs/promises'
 import { getRedirections } from '../cms/getRedirections'
+import { createFileDataStore, getDataStore } from '../cms/getDataStore'
+import { getPatternFilterKey } from './redirectFilterKeys'
+import { serializeRedirectFilter } from './redirectFilter'
+
+//the key of the bloom filter in the data store
+export const REDIRECT_FILTER_KEY = 'redirections-bloom-filter'
+
+interface Props {
+	//ignore the cached redirections and get the full list from the server (the prebuild step does this)
+	forceUpdate?: boolean
+}
 
 /**
- * Rebuild the redirection cache and bloom filter.
+ * Rebuild the redirection cache and bloom filter in the data store.
+ * Called from prebuild with a forced update, and from the revalidate webhook when a redirection changes.
  * Inpired by this: https://nextjs.org/docs/app/building-your-application/routing/redirecting#managing-redirects-at-scale-advanced
  */
-export const rebuildRedirectCache = async () => {
+export const rebuildRedirectCache = async ({ forceUpdate = true }: Props = {}) => {
 	console.log("Agility Website => Rebuilding redirect cache...")
 	try {
 
-		//force a rebuild the redirection cache
-		const redirections = await getRedirections({ forceUpdate: true })
+		const redirections = await getRedirections({ forceUpdate })
 
-		const allKeys = Object.keys(redirections.items)
+		//exact redirections are keyed by their origin, pattern redirections by the first segment of their prefix
+		const exactKeys = Object.keys(redirections.items)
+		const patternKeys = Array.from(new Set(redirections.patterns
+			.map(pattern => getPatternFilterKey(pattern.prefix))
+			.filter((key): key is string => key !== null)))
+		const allKeys = [...exactKeys, ...patternKeys]
+
+		//patterns at the root (e.g. `/:slug` or `/old-*`) have no segment to key them by, so middleware checks their prefixes directly
+		const rootPatternPrefixes = Array.from(new Set(redirections.patterns
+			.filter(pattern => getPatternFilterKey(pattern.prefix) === null)
+			.map(pattern => pattern.prefix)))
 
 		//rebuild the bloom filter
-		const filter = new ScalableBloomFilter(allKeys.length, 0.0001)
-
-		//add the origin urls from the redirections to the bloom filter
-		for (const k in redirections.items) {
-			let key = k
-			if (key.startsWith("~/")) key = key.substring(1)
-
-			if (key.includes("://")) {
-				const hostIndex = key.indexOf("/", key.indexOf("://") + 3)
-				key = key.substring(hostIndex)
-			}
-			filter.add(key)
-		}
+		const filter = new ScalableBloomFilter(Math.max(allKeys.length, 1), 0.0001)
 
+		//add the keys to the bloom filter - the origin urls were already normalized by getRedirections (see normalizeOriginUrl)
+		allKeys.forEach(key => filter.add(key))
 
-		const filterJson = filter.saveAsJSON()
-		const filterStr = JSON.stringify(filterJson)
 
+		const filterStr = serializeRedirectFilter({ bloomFilter: filter, rootPatternPrefixes })
 
-		//save the bloom filter to the data folder...
-		const fileName = 'data/redirections-bloom-filter.json'
-		await fs.writeFile(fileName, filterStr, 'utf8')
 
+		//save the bloom filter to the data store...
+		const store = getDataStore()
+		await store.set(REDIRECT_FILTER_KEY, filterStr)
 
-		// //put the bloom filter in the persistent cache
-		// setCachedObject('redirections-bloom-filter', filterStr)
+		if (forceUpdate && store.name !== 'file') {
+			//the bloom filter file is bundled with middleware as its initial filter, so keep it current at build time too
+			await createFileDataStore().set(REDIRECT_FILTER_KEY, filterStr)
+		}
 
+		//report on the filter that will be bundled with middleware vs the full list that won't be
+		const redirectionsStr = JSON.stringify(redirections)
+		console.log("Agility Website => Redirect bloom filter report:")
+		console.log(`  Exact redirects:     ${exactKeys.length}`)
+		console.log(`  Pattern redirects:   ${redirections.patterns.length} (${patternKeys.length} filter keys)`)
+		console.log(`  Root patterns:       ${rootPatternPrefixes.length}${rootPatternPrefixes.includes("/") ? " (matches every path)" : ""}`)
+		console.log(`  Filter keys:         ${allKeys.length}`)
+		console.log(`  Filter capacity:     ${filter.capacity()}`)
+		console.log(`  False positive rate: ${filter.rate().toExponential(2)}`)
+		console.log(`  Filter size:         ${formatBytes(filterStr.length)}`)
+		console.log(`  Full redirects size: ${formatBytes(redirectionsStr.length)}`)
+		console.log(`  Store:               ${store.name}`)
+
+		return {
+			lastAccessDate: redirections.lastAccessDate,
+			redirectCount: exactKeys.length + redirections.patterns.length
+		}
 
 	} catch (error) {
 		console.error("Error rebuilding redirect cache", error)
 	}
 
-}
\ No newline at end of file
+	return null
+
+}
+
+const formatBytes = (bytes: number) => {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
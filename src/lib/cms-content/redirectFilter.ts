@@ -0,0 +1,60 @@
+import { ScalableBloomFilter } from "bloom-filters"
+import { z } from "zod"
+
+/**
+ * The bloom filter as saved by `ScalableBloomFilter.saveAsJSON()`.
+ * Only the top level is checked here - the library checks the partitioned filters inside it as it loads them.
+ */
+const bloomFilterJsonSchema = z.object({
+	type: z.literal("ScalableBloomFilter"),
+	_initial_size: z.number(),
+	_error_rate: z.number(),
+	_ratio: z.number(),
+	_seed: z.number(),
+	_filters: z.array(z.object({ type: z.literal("PartitionedBloomFilter") }).passthrough()),
+}).passthrough()
+
+/**
+ * The redirect filter saved to the data store (and bundled with middleware as `data/redirections-bloom-filter.json`).
+ */
+export const redirectFilterJsonSchema = z.object({
+	bloomFilter: bloomFilterJsonSchema,
+	//the literal prefixes of pattern redirections with no complete first segment to key them by, e.g. `/` (from `/:slug`) or `/old-` (from `/old-*`)
+	rootPatternPrefixes: z.array(z.string()),
+})
+
+export type IRedirectFilterJson = z.infer<typeof redirectFilterJsonSchema>
+
+export interface RedirectFilter {
+	bloomFilter: ScalableBloomFilter
+	rootPatternPrefixes: string[]
+}
+
+/**
+ * Save the redirect filter for the data store.
+ * @param filter
+ * @returns the JSON string
+ */
+export const serializeRedirectFilter = ({ bloomFilter, rootPatternPrefixes }: RedirectFilter) => {
+	const json: IRedirectFilterJson = {
+		bloomFilter: bloomFilterJsonSchema.parse(bloomFilter.saveAsJSON()),
+		rootPatternPrefixes
+	}
+	return JSON.stringify(json)
+}
+
+/**
+ * Load the redirect filter from its JSON, checking it's in the shape `serializeRedirectFilter` saves.
+ * @param json the parsed JSON
+ * @returns null if it isn't a redirect filter
+ */
+export const parseRedirectFilter = (json: unknown): RedirectFilter | null => {
+	const result = redirectFilterJsonSchema.safeParse(json)
+	if (!result.success) return null
+
+	//the library types its json parameter as the global JSON object, so it needs a cast once the shape is known
+	const bloomFilter = ScalableBloomFilter.fromJSON(result.data.bloomFilter as unknown as JSON)
+	if (!(bloomFilter instanceof ScalableBloomFilter)) return null
+
+	return { bloomFilter, rootPatternPrefixes: result.data.rootPatternPrefixes }
+}
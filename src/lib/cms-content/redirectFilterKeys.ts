@@ -0,0 +1,50 @@
+/**
+ * Normalize a path for the redirect lookups: lower case, without a trailing slash.
+ * Exact redirections are keyed by it (see normalizeOriginUrl), and request paths are looked up by it.
+ * @param path
+ * @returns
+ */
+export const normalizeRedirectPath = (path: string) => {
+	const normalized = path.toLowerCase()
+	return normalized.length > 1 && normalized.endsWith("/") ? normalized.slice(0, -1) : normalized
+}
+
+/**
+ * Get the bloom filter key for a pattern redirection: the first segment of its literal prefix.
+ * e.g. `/old-blog/` (from `/old-blog/*`) → `/old-blog`, `/docs/v1-` (from `/docs/v1-*`) → `/docs`
+ * @param prefix the literal prefix of the pattern (see RedirectionPattern)
+ * @returns null for root level patterns without a complete first segment, e.g. `/` (from `/:slug`) or `/old-` (from `/old-*`) -
+ * those are kept as `rootPatternPrefixes` alongside the filter instead
+ */
+export const getPatternFilterKey = (prefix: string) => {
+	const end = prefix.indexOf("/", 1)
+	return end > 1 ? prefix.substring(0, end) : null
+}
+
+/**
+ * Get the keys to test against the bloom filter for a request path: the normalized path and its first segment,
+ * so that pattern redirections registered under that segment are found.
+ * e.g. `/old-blog/my-post` → [`/old-blog/my-post`, `/old-blog`]
+ * @param path
+ * @returns
+ */
+export const getPathFilterKeys = (path: string) => {
+	const normalized = normalizeRedirectPath(path)
+	const keys = [normalized]
+
+	const end = normalized.indexOf("/", 1)
+	if (end > 1) keys.push(normalized.substring(0, end))
+
+	return keys
+}
+
+/**
+ * Check if a request path is covered by a root level pattern redirection.
+ * @param path
+ * @param rootPatternPrefixes
+ * @returns
+ */
+export const matchesRootPattern = (path: string, rootPatternPrefixes: string[]) => {
+	const normalized = path.toLowerCase()
+	return rootPatternPrefixes.some(prefix => normalized.startsWith(prefix))
+}
@@ -2,9 +2,13 @@ import { type AgilityPageProps, type ImageField } from "@agility/nextjs"
 import { type ContentItem } from "@agility/content-fetch"
 import { type Metadata, type ResolvingMetadata } from "next"
 import { getHeaderContent } from "./getHeaderContent"
+import { getHreflangLanguages, getLocaleAlternates } from "./getLocaleAlternates"
+import { getPostFeedUrls } from "./getPostFeed"
 
 import ReactHtmlParser from "html-react-parser"
 import { getContentItem } from "@/lib/cms/getContentItem"
+import { localizeUrl } from "@/lib/i18n/localizeUrl"
+import { getSiteUrl, toAbsoluteUrl } from "@/lib/utils/siteUrl"
 import type { JSX } from "react"
 
 interface Props {
@@ -16,7 +20,7 @@ interface Props {
 	parent: ResolvingMetadata
 }
 
-export const resolveAgilityMetaData = async ({ agilityData, locale, parent }: Props): Promise<Metadata> => {
+export const resolveAgilityMetaData = async ({ agilityData, locale, sitemap, parent }: Props): Promise<Metadata> => {
 
 
 	const header = await getHeaderContent({ locale })
@@ -59,12 +63,22 @@ export const resolveAgilityMetaData = async ({ agilityData, locale, parent }: Pr
 
 	let otherMetaData: { [name: string]: string } = {}
 
+	//a canonical link entered in the page's SEO fields overrides the computed one
+	let canonicalOverride: string | null = null
+
 
 	if (metaHTML) {
 		const additionalHeaderMarkup = ReactHtmlParser(metaHTML)
 
 		const handleMetaTag = (item: JSX.Element) => {
 			if (!item.type) return
+			if (item.type === "link") {
+				const linkTag = item.props as React.LinkHTMLAttributes<HTMLLinkElement>
+				if (linkTag?.rel?.toLowerCase() === "canonical" && linkTag.href) {
+					canonicalOverride = linkTag.href
+					return
+				}
+			}
 			//check if this is a meta tag and add it to the otherMetaData if so
 			if (item.type === "meta") {
 				const metaTag = item.props as React.MetaHTMLAttributes<HTMLMetaElement>
@@ -100,14 +114,41 @@ export const resolveAgilityMetaData = async ({ agilityData, locale, parent }: Pr
 	}
 	//#endregion
 
-
+	//#region *** resolve the canonical url and hreflang alternates ***
+	//the page in every locale it's translated into, found by pageID since slugs can be translated
+	const localeAlternates = await getLocaleAlternates({
+		pageID: agilityData.sitemapNode.pageID,
+		contentID: agilityData.sitemapNode.contentID,
+		path: agilityData.sitemapNode.path,
+		locale,
+		channelName: sitemap
+	})
+	const translations = localeAlternates.filter(alternate => alternate.match === "page")
+	const currentUrl = translations.find(alternate => alternate.locale === locale)?.url || localizeUrl(agilityData.sitemapNode.path, locale)
+	const canonical = toAbsoluteUrl(canonicalOverride || currentUrl)
+
+	const languages = getHreflangLanguages(localeAlternates)
+
+	//let feed readers discover the blog feeds from any page
+	const feedUrls = getPostFeedUrls(locale)
+	//#endregion
 
 	const metaData: Metadata = {
-		metadataBase: new URL('https://preview-tests-nov-2023.vercel.app'),
+		metadataBase: new URL(getSiteUrl()),
 		title: `${agilityData.sitemapNode?.title} | ${header?.siteName || "Company"}`,
 		description: agilityData.page?.seo?.metaDescription,
 		keywords: agilityData.page?.seo?.metaKeywords,
+		alternates: {
+			canonical,
+			languages,
+			types: {
+				"application/rss+xml": feedUrls.rss,
+				"application/atom+xml": feedUrls.atom,
+				"application/feed+json": feedUrls.json
+			}
+		},
 		openGraph: {
+			url: canonical,
 			images: ogImages,
 		},
 
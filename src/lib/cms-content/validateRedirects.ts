@@ -0,0 +1,242 @@
+import { createAgilityClient } from '../cms/createAgilityClient'
+import fs from 'fs/promises'
+import { getCachedRedirections, normalizeOriginUrl, REDIRECTIONS_KEY, type RedirectionPattern, type RedirectionsMap } from '../cms/getRedirections'
+import { getDataStore } from '../cms/getDataStore'
+import type { SitemapNode } from '../types/SitemapNode'
+import { compileRedirections, matchRedirection, type CompiledRedirections } from './matchRedirection'
+
+//anything longer than this is treated as a loop (e.g. a pattern that keeps appending to the path)
+const MAX_HOPS = 20
+
+//routes served by the app rather than the Agility sitemap
+const NON_SITEMAP_PREFIXES = ['/docs', '/api']
+
+//what to put in place of the wildcards and named segments of a pattern redirection to follow it
+const SAMPLE_SEGMENT = 'redirect-check'
+
+export interface RedirectReport {
+	generatedAt: string
+	redirectCount: number
+	//redirections that eventually point back at themselves - these fail the build
+	loops: { origin: string, path: string[] }[]
+	//redirections that take more than one hop - exact redirections are collapsed to point at their final destination,
+	//pattern redirections can't be (their destination depends on the path), so they're only reported
+	chains: { origin: string, path: string[], destination: string, collapsed: boolean }[]
+	//redirections whose final destination is not a page in the sitemap
+	brokenDestinations: { origin: string, destination: string }[]
+	//live sitemap pages that can never be reached because a redirection matches them first
+	shadowedPages: { origin: string, page: string }[]
+}
+
+/**
+ * Get the relative path of a destination url, or null if it's an external url.
+ */
+const getDestinationPath = (destinationUrl: string) => {
+	if (!destinationUrl.startsWith("/")) return null
+	const path = destinationUrl.split(/[?#]/)[0] || "/"
+	return path.length > 1 && path.endsWith("/") ? path.slice(0, -1) : path
+}
+
+/**
+ * Get a path that a pattern redirection matches, with a sample value for each wildcard and named segment,
+ * e.g. `/old-blog/*` → `/old-blog/redirect-check`
+ * @returns null if the sample doesn't match the pattern
+ */
+const getSamplePath = (pattern: RedirectionPattern) => {
+	const path = normalizeOriginUrl(pattern.originUrl)
+		.replace(/\/:[a-z_][a-z0-9_]*/gi, `/${SAMPLE_SEGMENT}`)
+		.replace(/\*/g, SAMPLE_SEGMENT)
+
+	return new RegExp(pattern.regex, "i").test(path) ? path : null
+}
+
+/**
+ * Follow a redirection until it lands somewhere that doesn't redirect.
+ * @param compiled the redirections
+ * @param origin the path being redirected
+ * @param destinationUrl where it redirects to
+ * @returns the paths along the way (starting with the origin), and where it ends up - or that it never does
+ */
+const followRedirection = (compiled: CompiledRedirections, origin: string, destinationUrl: string) => {
+	const path = [origin]
+	let destination = destinationUrl
+	let destinationPath = getDestinationPath(destination)
+
+	while (destinationPath) {
+		if (path.includes(destinationPath.toLowerCase()) || path.length > MAX_HOPS) {
+			return { path, destination, destinationPath, isLoop: true }
+		}
+
+		const next = matchRedirection(compiled, destinationPath)
+		if (!next) break
+
+		path.push(destinationPath.toLowerCase())
+		destination = next.destinationUrl
+		destinationPath = getDestinationPath(destination)
+	}
+
+	return { path, destination, destinationPath, isLoop: false }
+}
+
+/**
+ * Get the public paths of every page in the flat sitemap, for every locale.
+ * The default locale is unprefixed, the others are prefixed with `/{locale}`.
+ */
+const getSitemapPaths = async () => {
+
+	const agilitySDK = createAgilityClient({
+		guid: process.env.AGILITY_GUID,
+		apiKey: process.env.AGILITY_API_FETCH_KEY,
+		isPreview: false
+	});
+
+	const locales = (process.env.AGILITY_LOCALES || "en-us").split(",").map(l => l.trim()).filter(Boolean)
+	const defaultLocale = locales[0]
+
+	const allPaths = new Set<string>()
+	const livePaths = new Set<string>()
+
+	for (const locale of locales) {
+		const sitemap = await agilitySDK.getSitemapFlat({
+			channelName: process.env.AGILITY_SITEMAP || "website",
+			languageCode: locale
+		}) as { [path: string]: SitemapNode }
+
+		Object.values(sitemap).forEach((node) => {
+			if (node.isFolder) return
+
+			const path = (locale === defaultLocale ? node.path : `/${locale}${node.path === "/" ? "" : node.path}`).toLowerCase()
+			allPaths.add(path)
+			if (!node.redirect) livePaths.add(path)
+		})
+	}
+
+	return { allPaths, livePaths }
+}
+
+/**
+ * Analyze the redirections for loops, chains, broken destinations and shadowed pages,
+ * and collapse chains so each redirection points straight at its final destination.
+ * @param redirections the redirections to analyze - chains are collapsed in place
+ * @param sitemap the public paths in the sitemap
+ * @returns
+ */
+export const analyzeRedirects = (redirections: RedirectionsMap, sitemap: { allPaths: Set<string>, livePaths: Set<string> }): RedirectReport => {
+
+	const compiled = compileRedirections(redirections)
+
+	const report: RedirectReport = {
+		generatedAt: new Date().toISOString(),
+		redirectCount: Object.keys(redirections.items).length + redirections.patterns.length,
+		loops: [],
+		chains: [],
+		brokenDestinations: [],
+		shadowedPages: []
+	}
+
+	const loopKeys = new Set<string>()
+	const collapsedDestinations: { [origin: string]: string } = {}
+
+	const reportLoop = (origin: string, path: string[], destination: string) => {
+		//each member of a loop finds the same loop, only report it once
+		const loopKey = [...path].sort().join("|")
+		if (!loopKeys.has(loopKey)) {
+			loopKeys.add(loopKey)
+			report.loops.push({ origin, path: [...path, destination] })
+		}
+	}
+
+	Object.entries(redirections.items).forEach(([origin, redirection]) => {
+
+		const { path, destination, destinationPath, isLoop } = followRedirection(compiled, origin, redirection.destinationUrl)
+
+		if (isLoop) {
+			reportLoop(origin, path, destinationPath || destination)
+			return
+		}
+
+		if (path.length > 1) {
+			report.chains.push({ origin, path: [...path, destination], destination, collapsed: true })
+			collapsedDestinations[origin] = destination
+		}
+
+		if (destinationPath
+			&& !sitemap.allPaths.has(destinationPath.toLowerCase())
+			&& !NON_SITEMAP_PREFIXES.some(prefix => destinationPath!.startsWith(prefix))) {
+			report.brokenDestinations.push({ origin, destination })
+		}
+	})
+
+	//follow each pattern redirection from a sample path it matches, so patterns that lead into other redirections
+	//(or back into themselves, e.g. `/blog/*` → `/blog/new/*`) are found too
+	redirections.patterns.forEach((pattern) => {
+
+		const samplePath = getSamplePath(pattern)
+		if (!samplePath) return
+
+		//the sample may be taken by an exact redirection or a pattern with a longer prefix first
+		const redirection = matchRedirection(compiled, samplePath)
+		if (!redirection || redirection.id !== pattern.id) return
+
+		const { path, destination, destinationPath, isLoop } = followRedirection(compiled, samplePath, redirection.destinationUrl)
+
+		if (isLoop) {
+			reportLoop(pattern.originUrl, path, destinationPath || destination)
+			return
+		}
+
+		if (path.length > 1) {
+			report.chains.push({ origin: pattern.originUrl, path: [...path, destination], destination, collapsed: false })
+		}
+	})
+
+	//collapse the chains once everything has been followed, so the report reflects the original rules
+	Object.entries(collapsedDestinations).forEach(([origin, destination]) => {
+		redirections.items[origin] = { ...redirections.items[origin], destinationUrl: destination }
+	})
+
+	//check which live pages are hidden behind a redirection
+	sitemap.livePaths.forEach((page) => {
+		if (page === "/") return
+		const redirection = matchRedirection(compiled, page)
+		if (redirection) {
+			report.shadowedPages.push({ origin: redirection.originUrl, page })
+		}
+	})
+
+	return report
+}
+
+/**
+ * Validate the cached redirections against the sitemap at build time.
+ * Chains are collapsed and saved back to the data store, and a report is written to `data/redirections-report.json`.
+ * @returns the report
+ * @throws if the redirections could not be validated (e.g. the cache wasn't rebuilt, or the sitemap couldn't be loaded)
+ */
+export const validateRedirects = async (): Promise<RedirectReport> => {
+	console.log("Agility Website => Validating redirects...")
+
+	const redirections = await getCachedRedirections()
+	if (!redirections) throw new Error("There are no cached redirections to validate - the redirect cache could not be rebuilt")
+
+	const sitemap = await getSitemapPaths()
+	const report = analyzeRedirects(redirections, sitemap)
+
+	if (report.chains.some(chain => chain.collapsed)) {
+		await getDataStore().set(REDIRECTIONS_KEY, JSON.stringify(redirections))
+	}
+
+	await fs.writeFile('data/redirections-report.json', JSON.stringify(report, null, 2), 'utf8')
+
+	console.log("Agility Website => Redirect validation report:")
+	console.log(`  Redirects:            ${report.redirectCount}`)
+	console.log(`  Loops:                ${report.loops.length}`)
+	console.log(`  Chains collapsed:     ${report.chains.filter(chain => chain.collapsed).length}`)
+	console.log(`  Pattern chains:       ${report.chains.filter(chain => !chain.collapsed).length}`)
+	console.log(`  Broken destinations:  ${report.brokenDestinations.length}`)
+	console.log(`  Shadowed pages:       ${report.shadowedPages.length}`)
+
+	report.loops.forEach(loop => console.error(`  Redirect loop: ${loop.path.join(" → ")}`))
+
+	return report
+}
@@ -0,0 +1,104 @@
+/**
+ * The cache policy for everything fetched from Agility CMS:
+ * how long each fetch is cached for, and the tags the revalidate webhook uses to purge it.
+ */
+
+//used when AGILITY_FETCH_CACHE_DURATION or AGILITY_PATH_REVALIDATE_DURATION are missing or not a number
+const DEFAULT_CACHE_DURATION = 60
+
+/**
+ * Cache durations (in seconds) for specific content lists, by reference name.
+ * 0 means never cache - always fetch the latest.
+ */
+export const CACHE_DURATION_OVERRIDES: { [referenceName: string]: number } = {
+	//redirections are cached in the data store instead, see getRedirections
+	redirections: 0,
+	//the header and footer rarely change, and are revalidated by the webhook when they do
+	header: 3600,
+	footer: 3600,
+	//posts should show up quickly once published
+	posts: 60,
+}
+
+const parseDuration = (value: string | undefined) => {
+	const duration = parseInt(value || "")
+	return isNaN(duration) || duration < 0 ? DEFAULT_CACHE_DURATION : duration
+}
+
+/**
+ * Get the default cache duration for fetches, from `AGILITY_FETCH_CACHE_DURATION`.
+ * @returns
+ */
+export const getFetchCacheDuration = () => parseDuration(process.env.AGILITY_FETCH_CACHE_DURATION)
+
+/**
+ * Get how often a page should be regenerated, from `AGILITY_PATH_REVALIDATE_DURATION`.
+ * @returns
+ */
+export const getPathRevalidateDuration = () => parseDuration(process.env.AGILITY_PATH_REVALIDATE_DURATION)
+
+/**
+ * How often the page routes are regenerated, in seconds. Next.js only reads a literal `revalidate` in a route,
+ * so each page route repeats this number - the prebuild fails if they or `AGILITY_PATH_REVALIDATE_DURATION` don't match it.
+ */
+export const PAGE_ROUTE_REVALIDATE = 60
+
+/**
+ * Get how long to cache a fetch for, taking the overrides for the reference name into account.
+ * @param referenceName the content list being fetched, if any
+ * @returns
+ */
+export const getCacheDuration = (referenceName?: string) => {
+	const override = referenceName ? CACHE_DURATION_OVERRIDES[referenceName.toLowerCase()] : undefined
+	return override !== undefined ? override : getFetchCacheDuration()
+}
+
+/**
+ * The cache tags for each kind of fetch. The revalidate webhook uses the same names to purge them.
+ */
+export const cacheTags = {
+	contentItem: (contentID: number, locale: string) => `agility-content-${contentID}-${locale}`,
+	contentList: (referenceName: string, locale: string) => `agility-content-${referenceName.toLowerCase()}-${locale}`,
+	page: (pageID: number, locale: string) => `agility-page-${pageID}-${locale}`,
+	sitemapFlat: (locale: string) => `agility-sitemap-flat-${locale}`,
+	sitemapNested: (locale: string) => `agility-sitemap-nested-${locale}`,
+	//the sitemap.xml entries, for every locale at once
+	sitemapEntries: () => `agility-sitemap-entries`,
+}
+
+/**
+ * Get the fetch config for the Agility SDK.
+ * @param param0 the tags to add, and the reference name of the content list being fetched, if any
+ * @returns
+ */
+export const getFetchConfig = ({ tags, referenceName }: { tags: string[], referenceName?: string }) => {
+	return {
+		next: {
+			tags,
+			revalidate: getCacheDuration(referenceName),
+		},
+	}
+}
+
+/**
+ * Get a summary of the cache policy, for diagnostics.
+ * @param locale the locale to show example tags for
+ * @returns
+ */
+export const getCachePolicy = (locale: string) => {
+	return {
+		fetchCacheDuration: getFetchCacheDuration(),
+		pathRevalidateDuration: getPathRevalidateDuration(),
+		//what the page routes actually revalidate with
+		pageRouteRevalidate: PAGE_ROUTE_REVALIDATE,
+		overrides: CACHE_DURATION_OVERRIDES,
+		tags: {
+			contentItem: cacheTags.contentItem(123, locale),
+			contentList: cacheTags.contentList("posts", locale),
+			page: cacheTags.page(456, locale),
+			sitemapFlat: cacheTags.sitemapFlat(locale),
+			sitemapNested: cacheTags.sitemapNested(locale),
+			sitemapEntries: cacheTags.sitemapEntries(),
+		}
+	}
+}
@@ -0,0 +1,39 @@
+import fs from "fs/promises"
+import path from "path"
+import { getPathRevalidateDuration, PAGE_ROUTE_REVALIDATE } from "./cachePolicy"
+
+//the routes whose pages are regenerated from Agility content
+const PAGE_ROUTES_DIR = path.join("src", "app", "[locale]")
+
+const REVALIDATE_EXPORT = /^export const revalidate = (\d+)/m
+
+/**
+ * Check that the page routes all export `revalidate = PAGE_ROUTE_REVALIDATE`, and that it's the `AGILITY_PATH_REVALIDATE_DURATION`
+ * (next.js only reads a literal there, so the cache policy can't set it for them).
+ * @returns the problems found - empty if the pages will be regenerated as often as configured
+ */
+export const checkPageRevalidate = async () => {
+	const problems: string[] = []
+
+	const duration = getPathRevalidateDuration()
+	if (duration !== PAGE_ROUTE_REVALIDATE) {
+		problems.push(`AGILITY_PATH_REVALIDATE_DURATION is ${duration}, but the page routes revalidate every ${PAGE_ROUTE_REVALIDATE} seconds - change PAGE_ROUTE_REVALIDATE and the routes' revalidate to match`)
+	}
+
+	const dir = path.join(process.cwd(), PAGE_ROUTES_DIR)
+	const files = (await fs.readdir(dir, { recursive: true }))
+		.filter(file => path.basename(file) === "page.tsx")
+
+	for (const file of files) {
+		const source = await fs.readFile(path.join(dir, file), "utf8")
+		const match = REVALIDATE_EXPORT.exec(source)
+		const revalidate = match ? parseInt(match[1]) : null
+		if (revalidate === PAGE_ROUTE_REVALIDATE) continue
+
+		problems.push(revalidate === null
+			? `${path.join(PAGE_ROUTES_DIR, file)} doesn't export revalidate = ${PAGE_ROUTE_REVALIDATE}`
+			: `${path.join(PAGE_ROUTES_DIR, file)} exports revalidate = ${revalidate}, not ${PAGE_ROUTE_REVALIDATE}`)
+	}
+
+	return problems
+}
@@ -0,0 +1,134 @@
+import "server-only";
+import { cache } from "react"
+import type { ApiClientInstance, ContentItem, Page } from "@agility/content-fetch"
+import type { ContentItemRequestParams } from "@agility/content-fetch/dist/methods/getContentItem"
+import type { ContentListRequestParams } from "@agility/content-fetch/dist/methods/getContentList"
+import type { PageRequestParams } from "@agility/content-fetch/dist/methods/getPage"
+import type { SitemapFlatRequestParams } from "@agility/content-fetch/dist/methods/getSitemapFlat"
+import type { SitemapNestedRequestParams } from "@agility/content-fetch/dist/methods/getSitemapNested"
+import type { IContentListResponse } from "../types/IContentListResponse"
+import type { SitemapNode } from "../types/SitemapNode"
+import { type AgilityMode, getAgilityClient, getAgilityMode } from "./getAgilitySDK"
+import { getFetchConfig } from "./cachePolicy"
+
+export interface FetchOptions {
+	//the cache tags for this fetch
+	tags: string[]
+	//the content list being fetched, for its cache duration override
+	referenceName?: string
+}
+
+export interface RequestTiming {
+	method: string
+	key: string
+	mode: AgilityMode
+	startedAt: string
+	durationMs: number
+	//served by an identical request already in flight in the same render
+	deduped: boolean
+}
+
+type ClientMethod = "getContentItem" | "getContentList" | "getPage" | "getSitemapFlat" | "getSitemapNested"
+
+//the params a client method takes
+type ClientMethodParams<M extends ClientMethod> = Parameters<ApiClientInstance[M]>[0]
+
+type FetchConfig = ReturnType<typeof getFetchConfig>
+
+//how many recent requests to keep the timing of
+const MAX_TIMINGS = 100
+
+const timings: RequestTiming[] = []
+
+//the requests in flight for the current render (react's cache is scoped to a single server render)
+const getInFlightRequests = cache(() => new Map<string, Promise<unknown>>())
+
+const recordTiming = (timing: RequestTiming) => {
+	timings.push(timing)
+	if (timings.length > MAX_TIMINGS) timings.shift()
+}
+
+/**
+ * Call a client method with its own fetch config.
+ * The SDK reads `config.fetchConfig` when it makes the request, so each call gets a view of the shared client
+ * with its own config rather than changing the shared one.
+ */
+const callWithFetchConfig = <M extends ClientMethod>(client: ApiClientInstance, method: M, params: ClientMethodParams<M>, fetchConfig: FetchConfig): Promise<unknown> => {
+	const view: ApiClientInstance = Object.create(client, {
+		config: { value: { ...client.config, fetchConfig } }
+	})
+	//the methods take different params, so narrow the one being called to its own
+	const call = view[method] as (params: ClientMethodParams<M>) => Promise<unknown>
+	return call.call(view, params)
+}
+
+const request = async <T, M extends ClientMethod = ClientMethod>(method: M, params: ClientMethodParams<M>, options: FetchOptions): Promise<T> => {
+
+	const mode = await getAgilityMode()
+	const fetchConfig = getFetchConfig(options)
+	const key = `${mode}:${method}:${JSON.stringify(params)}:${JSON.stringify(fetchConfig)}`
+
+	const inFlight = getInFlightRequests()
+	const startedAt = new Date()
+
+	let promise = inFlight.get(key)
+	const deduped = promise !== undefined
+
+	if (!promise) {
+		promise = callWithFetchConfig(getAgilityClient(mode), method, params, fetchConfig)
+		inFlight.set(key, promise)
+	}
+
+	try {
+		return await promise as T
+	} finally {
+		recordTiming({
+			method,
+			key,
+			mode,
+			startedAt: startedAt.toISOString(),
+			durationMs: Date.now() - startedAt.getTime(),
+			deduped
+		})
+	}
+}
+
+/**
+ * A typed wrapper around the Agility SDK.
+ * Uses one client per preview/live mode, builds the fetch config for each call from the cache policy,
+ * and shares identical requests made during the same render.
+ */
+export const contentClient = {
+	getContentItem: <T>(params: ContentItemRequestParams, options: FetchOptions) =>
+		request<ContentItem<T>>("getContentItem", params, options),
+
+	getContentList: <T>(params: ContentListRequestParams, options: FetchOptions) =>
+		request<IContentListResponse<T>>("getContentList", params, options),
+
+	getPage: (params: PageRequestParams, options: FetchOptions) =>
+		request<Page>("getPage", params, options),
+
+	getSitemapFlat: (params: SitemapFlatRequestParams, options: FetchOptions) =>
+		request<{ [path: string]: SitemapNode }>("getSitemapFlat", params, options),
+
+	getSitemapNested: (params: SitemapNestedRequestParams, options: FetchOptions) =>
+		request<any[]>("getSitemapNested", params, options),
+}
+
+/**
+ * Get the timing of the most recent requests made by this instance, for diagnostics.
+ * @returns the requests, newest first, and a summary
+ */
+export const getRequestTimings = () => {
+	const requests = [...timings].reverse()
+	const fetched = requests.filter(t => !t.deduped)
+	const totalMs = fetched.reduce((total, t) => total + t.durationMs, 0)
+
+	return {
+		count: requests.length,
+		dedupedCount: requests.length - fetched.length,
+		averageMs: fetched.length > 0 ? Math.round(totalMs / fetched.length) : 0,
+		slowest: [...fetched].sort((a, b) => b.durationMs - a.durationMs).slice(0, 5),
+		requests
+	}
+}
@@ -0,0 +1,13 @@
+import agility, { type ApiClientInstance, type Config } from "@agility/content-fetch"
+import { createOfflineClient, isOfflineMode } from "./offlineClient"
+
+/**
+ * Create an Agility SDK client - or, with `AGILITY_OFFLINE=1`, a client that serves the same responses from `data/fixtures`.
+ * Use this instead of `agility.getApi` so everything works offline.
+ * @param config
+ * @returns
+ */
+export const createAgilityClient = (config: Config): ApiClientInstance => {
+	if (isOfflineMode()) return createOfflineClient()
+	return agility.getApi(config)
+}
@@ -0,0 +1,183 @@
+import "server-only";
+import { cache } from "react"
+import { after } from "next/server"
+import type { Page } from "@agility/content-fetch"
+import { getDataStore } from "./getDataStore"
+
+/**
+ * A module rendered on a page, with the content lists it links to.
+ */
+export interface ModuleDependency {
+	name: string
+	contentID: number
+	referenceNames: string[]
+}
+
+/**
+ * Everything a rendered page depends on: its modules, and the content lists and items fetched while rendering it.
+ */
+export interface PageDependencies {
+	path: string
+	locale: string
+	pageID: number
+	//the content item for a dynamic page
+	contentID?: number
+	modules: ModuleDependency[]
+	referenceNames: string[]
+	contentIDs: number[]
+	updatedAt: string
+}
+
+export interface DependencyGraph {
+	updatedAt: string
+	pages: { [pageKey: string]: PageDependencies }
+}
+
+//the key of the dependency graph in the data store - a hash with a field for each page
+export const DEPENDENCY_GRAPH_KEY = 'dependency-graph-pages'
+
+//the page being rendered in the current request (react's cache is scoped to a single server render)
+const getRenderPage = cache(() => ({ page: null as PageDependencies | null }))
+
+let warnedNoStore = false
+
+const getPageKey = (locale: string, path: string) => `${locale}:${path}`
+
+/**
+ * Get the data store for the graph.
+ * The file store isn't shared between server instances (and may not be writable), so it's only used in development.
+ * @returns null if there's nowhere to keep the graph
+ */
+const getGraphStore = () => {
+	const store = getDataStore()
+	if (store.name === "file" && process.env.NODE_ENV !== "development") {
+		if (!warnedNoStore) {
+			console.warn("The dependency graph needs a KV store outside of development (KV_REST_API_URL and KV_REST_API_TOKEN) - not recording dependencies")
+			warnedNoStore = true
+		}
+		return null
+	}
+	return store
+}
+
+/**
+ * Save a page's dependencies to its own field in the graph, so pages rendered at the same time on other instances aren't overwritten.
+ */
+const savePage = async (pageKey: string, page: PageDependencies) => {
+	const store = getGraphStore()
+	if (!store) return
+
+	try {
+		await store.setHashField(DEPENDENCY_GRAPH_KEY, pageKey, JSON.stringify(page))
+	} catch (error) {
+		console.error("Could not save page dependencies", pageKey, error)
+	}
+}
+
+/**
+ * Get the modules in every zone of a page.
+ */
+const getPageModules = (page: Page): ModuleDependency[] => {
+	return Object.values(page.zones || {}).flatMap(zone => (zone || []).map(({ module, item }) => ({
+		name: module,
+		contentID: ('contentID' in item ? item.contentID : 'contentid' in item ? item.contentid : 0) || 0,
+		referenceNames: []
+	}))).filter(m => m.contentID > 0)
+}
+
+/**
+ * Get the reference names of the content lists linked from a content item's fields.
+ * @param item
+ * @returns
+ */
+export const getLinkedReferenceNames = (item: { fields?: unknown } | null | undefined) => {
+	return Object.values((item?.fields || {}) as { [key: string]: any })
+		.filter(value => value && typeof value === "object" && typeof value.referencename === "string")
+		.map(value => value.referencename as string)
+}
+
+/**
+ * Start recording the dependencies of a page for the current render.
+ * Any content fetched with getContentItem or getContentList during this render is recorded against the page,
+ * and the page is saved once the response has finished.
+ * @param param0 the page being rendered - previously recorded dependencies for the page are replaced
+ */
+export const setRenderPage = ({ page, path, locale, contentID }: { page: Page, path: string, locale: string, contentID?: number }) => {
+	const pageKey = getPageKey(locale, path)
+	const modules = getPageModules(page)
+
+	const pageDependencies: PageDependencies = {
+		path,
+		locale,
+		pageID: page.pageID,
+		contentID,
+		modules,
+		referenceNames: [],
+		contentIDs: modules.map(m => m.contentID),
+		updatedAt: new Date().toISOString()
+	}
+	getRenderPage().page = pageDependencies
+
+	after(() => savePage(pageKey, pageDependencies))
+}
+
+/**
+ * Record that the page in the current render fetched a content list or item.
+ * Does nothing outside of a page render (e.g. in route handlers or layouts rendered before the page).
+ * @param param0 the reference name of a list, or the contentID of an item and the reference names of the lists it links to
+ */
+export const recordDependency = ({ referenceName, contentID, linkedReferenceNames = [] }: { referenceName?: string, contentID?: number, linkedReferenceNames?: string[] }) => {
+	const { page } = getRenderPage()
+	if (!page) return
+
+	const addReferenceName = (names: string[], name: string) => {
+		if (!names.includes(name.toLowerCase())) names.push(name.toLowerCase())
+	}
+
+	if (referenceName) addReferenceName(page.referenceNames, referenceName)
+	if (contentID && !page.contentIDs.includes(contentID)) page.contentIDs.push(contentID)
+
+	//when a module loads its own item, remember which lists it links to so we know which module uses them
+	const pageModule = contentID ? page.modules.find(m => m.contentID === contentID) : undefined
+	if (pageModule) {
+		linkedReferenceNames.forEach(name => addReferenceName(pageModule.referenceNames, name))
+	}
+}
+
+/**
+ * Get the current dependency graph, as recorded by every instance.
+ * @returns
+ */
+export const getDependencyGraph = async (): Promise<DependencyGraph> => {
+	const graph: DependencyGraph = { updatedAt: new Date().toISOString(), pages: {} }
+
+	const store = getGraphStore()
+	if (!store) return graph
+
+	try {
+		const pages = await store.getHash(DEPENDENCY_GRAPH_KEY)
+		Object.entries(pages).forEach(([pageKey, pageStr]) => {
+			graph.pages[pageKey] = JSON.parse(pageStr) as PageDependencies
+		})
+	} catch (error) {
+		console.error("Could not load dependency graph", error)
+	}
+
+	return graph
+}
+
+/**
+ * Get the pages that depend on a content item or content list.
+ * @param param0 pass the graph if it's already loaded
+ * @returns
+ */
+export const getDependentPages = async ({ contentID, referenceName, locale, graph }: { contentID?: number, referenceName?: string, locale?: string, graph?: DependencyGraph }) => {
+	const current = graph || await getDependencyGraph()
+	const refName = referenceName?.toLowerCase()
+
+	return Object.values(current.pages).filter(page => {
+		if (locale && page.locale !== locale) return false
+		return (contentID !== undefined && (page.contentID === contentID || page.contentIDs.includes(contentID)))
+			|| (refName !== undefined && page.referenceNames.includes(refName))
+	})
+}
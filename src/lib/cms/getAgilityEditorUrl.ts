@@ -0,0 +1,15 @@
+//the Agility content manager - see docs/AGILITY_CMS_URL_PATTERNS.md
+const AGILITY_APP_URL = "https://app.agilitycms.com"
+
+/**
+ * Get the link to edit a page, or a component on a page, in the Agility content manager.
+ * @param param0 the locale and page, and optionally the content id of a component on the page
+ * @returns the url, or null if the instance guid isn't configured
+ */
+export const getAgilityEditorUrl = ({ locale, pageID, contentID }: { locale: string, pageID: number, contentID?: number }) => {
+	const guid = process.env.AGILITY_GUID
+	if (!guid) return null
+
+	const pageUrl = `${AGILITY_APP_URL}/instance/${guid}/${locale.toLowerCase()}/pages/page-${pageID}`
+	return contentID ? `${pageUrl}/item-${contentID}` : pageUrl
+}
@@ -1,6 +1,8 @@
 import "server-only";
 import { getAgilityPageProps } from "@agility/nextjs/node";
 import { getAgilityContext } from "./getAgilityContext";
+import { getOfflinePageProps, isOfflineMode } from "./offlineClient";
+import { parseSearchParamSegment } from "@/lib/utils/searchParamSegment";
 
 export interface PageProps {
 	params: Promise<{ slug: string[], locale: string }>
@@ -15,38 +17,30 @@ export interface PageProps {
  */
 export const getAgilityPage = async ({ params }: PageProps) => {
 
-	const awaitedParams = await params
-	const { isPreview: preview, locale } = await getAgilityContext(awaitedParams.locale)
+	//copy the params - the layout and the page both load the page from them
+	const awaitedParams = { ...await params }
+	const { isPreview: preview, isDevelopmentMode, locale } = await getAgilityContext(awaitedParams.locale)
 
 
 	if (!awaitedParams.slug) awaitedParams.slug = [""]
 
 	//check the last element of the slug to see if it has search params encoded (from middleware)
-	let lastSlug = awaitedParams.slug[awaitedParams.slug.length - 1]
-	let searchParams: { [key: string]: string } = {}
-	if (lastSlug && lastSlug.startsWith("~~~") && lastSlug.endsWith("~~~")) {
+	const encodedSearchParams = parseSearchParamSegment(awaitedParams.slug[awaitedParams.slug.length - 1])
+	const searchParams: { [key: string]: string } = encodedSearchParams || {}
+	if (encodedSearchParams) {
 		//we have search params encoded here
-		lastSlug = lastSlug.replace(/~~~+/g, "")
-		const decoded = decodeURIComponent(lastSlug)
-		const parts = decoded.split("&").map(part => part.trim())
-
-		parts.forEach(part => {
-			const kvp = part.split("=")
-			if (kvp.length === 2) {
-				searchParams[kvp[0]] = kvp[1]
-			}
-		})
-
 		awaitedParams.slug = awaitedParams.slug.slice(0, awaitedParams.slug.length - 1)
 		if (awaitedParams.slug.length === 0) awaitedParams.slug = [""]
 	}
 
-	//get the page
-	const page = await getAgilityPageProps({
-		params: awaitedParams, preview, locale, apiOptions: {
-			contentLinkDepth: 0
-		}
-	})
+	//get the page (from the fixtures in offline mode)
+	const page = isOfflineMode()
+		? await getOfflinePageProps({ slug: awaitedParams.slug, locale, isPreview: preview, isDevelopmentMode })
+		: await getAgilityPageProps({
+			params: awaitedParams, preview, locale, apiOptions: {
+				contentLinkDepth: 0
+			}
+		})
 
 	page.globalData = page.globalData || {};
 	page.globalData["searchParams"] = searchParams;
@@ -1,27 +1,50 @@
 import "server-only";
 
-import agility from '@agility/content-fetch'
+import type { ApiClientInstance } from '@agility/content-fetch'
 import { draftMode } from 'next/headers';
+import { createAgilityClient } from './createAgilityClient';
 
+export type AgilityMode = "preview" | "live"
 
+//one client per mode, shared across requests - fetch options are passed per call (see contentClient), never set on these
+const clients: { [mode in AgilityMode]?: ApiClientInstance } = {}
 
-const getAgilitySDK = async () => {
-
-	//get the preview data
+/**
+ * Get whether the current request should use the preview or live API (preview in development and draft mode).
+ * @returns
+ */
+export const getAgilityMode = async (): Promise<AgilityMode> => {
 	const isDevelopmentMode = process.env.NODE_ENV === "development"
 	const { isEnabled: isDraftMode } = await draftMode()
-	const isPreview = isDevelopmentMode || isDraftMode
-
-	const apiKey = isPreview ? process.env.AGILITY_API_PREVIEW_KEY : process.env.AGILITY_API_FETCH_KEY
-
-	return agility.getApi({
-		guid: process.env.AGILITY_GUID,
-		apiKey,
-		isPreview
-	});
-
+	return isDevelopmentMode || isDraftMode ? "preview" : "live"
+}
 
+/**
+ * Get the client for the preview or live API, creating it on first use.
+ * @param mode
+ * @returns
+ */
+export const getAgilityClient = (mode: AgilityMode): ApiClientInstance => {
+	let client = clients[mode]
+	if (!client) {
+		const isPreview = mode === "preview"
+		client = createAgilityClient({
+			guid: process.env.AGILITY_GUID,
+			apiKey: isPreview ? process.env.AGILITY_API_PREVIEW_KEY : process.env.AGILITY_API_FETCH_KEY,
+			isPreview
+		})
+		clients[mode] = client
+	}
+	return client
+}
 
+/**
+ * Get the client for the current request's mode.
+ * The client is shared, so don't change its config - use contentClient to fetch with caching options.
+ * @returns
+ */
+const getAgilitySDK = async () => {
+	return getAgilityClient(await getAgilityMode())
 }
 
-export default getAgilitySDK
\ No newline at end of file
+export default getAgilitySDK
@@ -1,23 +1,30 @@
 import { type ContentItemRequestParams } from "@agility/content-fetch/dist/methods/getContentItem"
-import getAgilitySDK from "@/lib/cms/getAgilitySDK"
-import { type ContentItem } from "@agility/content-fetch"
+import { contentClient } from "@/lib/cms/contentClient"
+import { getLinkedReferenceNames, recordDependency } from "@/lib/cms/dependencyGraph"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { defaultLocale } from "@/lib/i18n/config"
+import { isContentValidationEnabled, validateContentItems } from "@/lib/cms/validateContent"
 
 /**
  * Get a content item with caching information added.
  * @param params
+ * @param options `validate` checks the fields against the generated content model validators (defaults to `AGILITY_VALIDATE_CONTENT`)
  * @returns
  */
-export const getContentItem = async <T>(params: ContentItemRequestParams) => {
+export const getContentItem = async <T>(params: ContentItemRequestParams, { validate = isContentValidationEnabled() }: { validate?: boolean } = {}) => {
 
-	const agilitySDK = await getAgilitySDK()
+	const contentItem = await contentClient.getContentItem<T>(params, {
+		tags: [cacheTags.contentItem(params.contentID, params.languageCode || params.locale || defaultLocale)]
+	})
 
-	agilitySDK.config.fetchConfig = {
-		next: {
-			tags: [`agility-content-${params.contentID}-${params.languageCode || params.locale}`],
-			revalidate: 60,
-		},
-	}
+	if (validate) validateContentItems([contentItem], `item ${params.contentID}`)
 
-	return await agilitySDK.getContentItem(params) as ContentItem<T>
+	//record that the page being rendered depends on this item (and the lists it links to)
+	recordDependency({
+		contentID: params.contentID,
+		linkedReferenceNames: getLinkedReferenceNames(contentItem)
+	})
+
+	return contentItem
 
 }
\ No newline at end of file
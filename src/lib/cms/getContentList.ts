@@ -1,25 +1,53 @@
-import getAgilitySDK from "@/lib/cms/getAgilitySDK"
+import type { ContentItem } from "@agility/content-fetch"
+import { contentClient } from "@/lib/cms/contentClient"
 import type { ContentListRequestParams } from "@agility/content-fetch/dist/methods/getContentList"
 import type { IContentListResponse } from "../types/IContentListResponse"
+import { recordDependency } from "@/lib/cms/dependencyGraph"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { defaultLocale } from "@/lib/i18n/config"
+import { isContentValidationEnabled, validateContentItems } from "@/lib/cms/validateContent"
 
 
 /**
  * Get a content list with caching information added.
  * @param params
+ * @param options `validate` checks the fields of each item against the generated content model validators (defaults to `AGILITY_VALIDATE_CONTENT`)
  * @returns
  */
-export const getContentList = async <T>(params: ContentListRequestParams): Promise<IContentListResponse<T>> => {
+export const getContentList = async <T>(params: ContentListRequestParams, { validate = isContentValidationEnabled() }: { validate?: boolean } = {}): Promise<IContentListResponse<T>> => {
 
 
-	const agilitySDK = await getAgilitySDK()
+	const contentList = await contentClient.getContentList<T>(params, {
+		tags: [cacheTags.contentList(params.referenceName, params.languageCode || params.locale || defaultLocale)],
+		referenceName: params.referenceName
+	})
 
-	agilitySDK.config.fetchConfig = {
-		next: {
-			tags: [`agility-content-${params.referenceName.toLowerCase()}-${params.languageCode || params.locale}`],
-			revalidate: 60,
-		},
-	}
+	if (validate) validateContentItems(contentList?.items || [], `list ${params.referenceName}`)
 
-	return await agilitySDK.getContentList(params)
+	//record that the page being rendered depends on this list
+	recordDependency({ referenceName: params.referenceName })
 
-}
\ No newline at end of file
+	return contentList
+
+}
+//the most items the API returns at once
+const MAX_TAKE = 250
+
+/**
+ * Get every item in a content list, a page at a time, for lists that can grow past a single request.
+ * @param params the list to get - without `take` or `skip`
+ * @returns
+ */
+export const getAllContentListItems = async <T>(params: Omit<ContentListRequestParams, "take" | "skip">): Promise<ContentItem<T>[]> => {
+
+	const items: ContentItem<T>[] = []
+	let totalCount = 0
+	do {
+		const list = await getContentList<T>({ ...params, take: MAX_TAKE, skip: items.length })
+		if (list.items.length === 0) break
+		items.push(...list.items)
+		totalCount = list.totalCount
+	} while (items.length < totalCount)
+
+	return items
+}
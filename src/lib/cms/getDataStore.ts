@@ -0,0 +1,125 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+/**
+ * A key/value store for data that has to be shared between builds and server instances at runtime,
+ * like the redirection cache and bloom filter, so redirections can be refreshed without a rebuild.
+ */
+export interface DataStore {
+	name: string
+	get: (key: string) => Promise<string | null>
+	set: (key: string, value: string) => Promise<void>
+	//a hash of fields under one key - each field is written on its own, so writers of different fields don't overwrite each other
+	getHash: (key: string) => Promise<{ [field: string]: string }>
+	setHashField: (key: string, field: string, value: string) => Promise<void>
+}
+
+/**
+ * File system store - each key is stored as `data/{key}.json`.
+ * Used for local development and for the prebuild step.
+ */
+export const createFileDataStore = (folder = 'data'): DataStore => {
+
+	const getFilePath = (key: string) => path.join(process.cwd(), folder, `${key}.json`)
+
+	const get = async (key: string) => {
+		try {
+			return await fs.readFile(getFilePath(key), 'utf8')
+		} catch (e) {
+			return null
+		}
+	}
+
+	const set = async (key: string, value: string) => {
+		await fs.mkdir(path.join(process.cwd(), folder), { recursive: true })
+		await fs.writeFile(getFilePath(key), value, 'utf8')
+	}
+
+	const getHash = async (key: string): Promise<{ [field: string]: string }> => {
+		const hashStr = await get(key)
+		return hashStr ? JSON.parse(hashStr) : {}
+	}
+
+	//hashes are stored as a single file, so writes to one are queued to keep them from overwriting each other (within this process)
+	const hashWrites = new Map<string, Promise<void>>()
+
+	return {
+		name: 'file',
+		get,
+		set,
+		getHash,
+		setHashField: async (key, field, value) => {
+			const write = (hashWrites.get(key) || Promise.resolve())
+				.catch(() => { })
+				.then(async () => {
+					const hash = await getHash(key)
+					hash[field] = value
+					await set(key, JSON.stringify(hash))
+				})
+			hashWrites.set(key, write)
+			await write
+		}
+	}
+}
+
+/**
+ * KV store using a REST API compatible with Upstash / Vercel KV.
+ * Used in production where the file system is read-only or not shared between instances.
+ */
+export const createKVDataStore = ({ url, token, prefix = 'agility' }: { url: string, token: string, prefix?: string }): DataStore => {
+
+	const request = async <T = string | null>(command: string, key: string, body?: string, args: string[] = []): Promise<T> => {
+		const segments = [`${prefix}:${key}`, ...args].map(encodeURIComponent).join('/')
+		const res = await fetch(`${url}/${command}/${segments}`, {
+			method: body === undefined ? 'GET' : 'POST',
+			headers: {
+				Authorization: `Bearer ${token}`
+			},
+			body,
+			cache: 'no-store'
+		})
+
+		if (!res.ok) {
+			throw new Error(`KV ${command} for ${key} failed with status ${res.status}`)
+		}
+
+		const json = await res.json() as { result: T }
+		return json.result
+	}
+
+	return {
+		name: 'kv',
+		get: async (key) => await request('get', key),
+		set: async (key, value) => {
+			await request('set', key, value)
+		},
+		getHash: async (key) => {
+			//the fields and values come back as one flat list: [field, value, field, value...]
+			const result = await request<string[] | null>('hgetall', key) || []
+			const hash: { [field: string]: string } = {}
+			for (let i = 0; i + 1 < result.length; i += 2) {
+				hash[result[i]] = result[i + 1]
+			}
+			return hash
+		},
+		setHashField: async (key, field, value) => {
+			await request('hset', key, value, [field])
+		}
+	}
+}
+
+/**
+ * Get the data store for this environment.
+ * Uses the KV store when `KV_REST_API_URL` and `KV_REST_API_TOKEN` are set, otherwise the file system.
+ */
+export const getDataStore = (): DataStore => {
+
+	const url = process.env.KV_REST_API_URL
+	const token = process.env.KV_REST_API_TOKEN
+
+	if (url && token) {
+		return createKVDataStore({ url, token })
+	}
+
+	return createFileDataStore()
+}
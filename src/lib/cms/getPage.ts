@@ -0,0 +1,18 @@
+import { contentClient } from "@/lib/cms/contentClient"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { defaultLocale } from "@/lib/i18n/config"
+
+import { type PageRequestParams } from "@agility/content-fetch/dist/methods/getPage"
+
+/**
+ * Get a page by its pageID, with caching information added.
+ * @param params
+ * @returns
+ */
+export const getPage = async (params: PageRequestParams) => {
+
+	return await contentClient.getPage(params, {
+		tags: [cacheTags.page(params.pageID, params.languageCode || params.locale || defaultLocale)]
+	})
+
+}
@@ -1,6 +1,8 @@
-import agility from '@agility/content-fetch'
+import { createAgilityClient } from './createAgilityClient'
 
-import fs from 'fs/promises'
+import { getDataStore } from './getDataStore'
+import { getFetchConfig } from './cachePolicy'
+import { normalizeRedirectPath } from '../cms-content/redirectFilterKeys'
 
 import { DateTime } from "luxon";
 
@@ -19,101 +21,202 @@ interface Redirections {
 	items: Redirection[]
 }
 
+/**
+ * A redirection whose origin contains wildcards (`/old-blog/*`) or named segments (`/team/:member`).
+ * The regex is stored as a string so the compiled map can be serialized to `data/redirections.json`.
+ */
+export interface RedirectionPattern extends Redirection {
+	//the literal part of the origin before the first wildcard or named segment, used for precedence and the bloom filter
+	prefix: string
+	//the regular expression source used to match a path (case-insensitive)
+	regex: string
+	//the names of the captures, in order - wildcards are numbered from 1 ($1, $2...)
+	captures: string[]
+}
+
 export interface RedirectionsMap {
 	lastAccessDate: string
 	isUpToDate: boolean
 	items: { [key: string]: Redirection }
+	//pattern based redirections, sorted by precedence (longest prefix first)
+	patterns: RedirectionPattern[]
 }
 
 interface Props {
 	forceUpdate?: boolean
 }
 
+//the key of the redirections in the data store
+export const REDIRECTIONS_KEY = 'redirections'
+
 /**
- * Get the list of redirections, from cache if possible.
- * @param params
- * @returns
+ * Get the lookup key for an origin url: lower case, without a leading ~, the host of an absolute url or a trailing slash.
  */
-export const getRedirections = async ({ forceUpdate = false }: Props): Promise<RedirectionsMap> => {
+export const normalizeOriginUrl = (originUrl: string) => {
+	let key = originUrl.toLowerCase()
+	if (key.startsWith("~/")) key = key.substring(1)
 
+	if (key.includes("://")) {
+		const hostIndex = key.indexOf("/", key.indexOf("://") + 3)
+		key = key.substring(hostIndex)
+	}
 
-	const apiKey = process.env.AGILITY_API_FETCH_KEY
+	return normalizeRedirectPath(key)
+}
 
-	const agilitySDK = agility.getApi({
-		guid: process.env.AGILITY_GUID,
-		apiKey,
-		isPreview: false
-	});
+/**
+ * Check if an origin url (already normalized) contains a wildcard or a named segment.
+ */
+const isPatternKey = (key: string) => key.includes("*") || /\/:[a-z_][a-z0-9_]*/i.test(key)
 
-	//don't cache the redirections with nextjs cache - we are gonna do that manually...
-	agilitySDK.config.fetchConfig = {
-		next: {
-			revalidate: 0,
-		},
+/**
+ * Compile a pattern based redirection into a serializable regex.
+ * - a trailing `/*` matches the path itself and anything below it: `/old-blog/*` → `/blog/$1`
+ * - any other `*` matches within the path: `/docs/*.html` → `/docs/$1`
+ * - `:name` matches a single segment: `/team/:member` → `/about-us/team/:member`
+ */
+const compilePattern = (key: string, redirection: Redirection): RedirectionPattern => {
+
+	const captures: string[] = []
+	let wildcardIndex = 0
+	let regex = ""
+
+	//the literal prefix stops at the first wildcard or named segment (keeping the slash before it)
+	const firstToken = key.search(/\*|\/:[a-z_]/i)
+	const prefixEnd = key[firstToken] === "/" ? firstToken + 1 : firstToken
+	const prefix = firstToken === -1 ? key : key.substring(0, prefixEnd)
+
+	const tokens = key.split(/(\/\*$|\*|\/:[a-z_][a-z0-9_]*)/i).filter(t => t.length > 0)
+
+	tokens.forEach((token) => {
+		if (token === "/*") {
+			//trailing wildcard - optional so /old-blog matches as well as /old-blog/anything
+			wildcardIndex++
+			captures.push(`${wildcardIndex}`)
+			regex += "(?:/(.*))?"
+		} else if (token === "*") {
+			wildcardIndex++
+			captures.push(`${wildcardIndex}`)
+			regex += "(.*)"
+		} else if (token.startsWith("/:")) {
+			captures.push(token.substring(2))
+			regex += "/([^/]+)"
+		} else {
+			regex += token.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+		}
+	})
+
+	return {
+		...redirection,
+		prefix,
+		regex: `^${regex}/?$`,
+		captures
 	}
+}
 
-	try {
+/**
+ * Sort patterns deterministically: longest literal prefix wins, then fewest captures, then lowest id.
+ */
+const comparePatterns = (a: RedirectionPattern, b: RedirectionPattern) => {
+	if (a.prefix.length !== b.prefix.length) return b.prefix.length - a.prefix.length
+	if (a.captures.length !== b.captures.length) return a.captures.length - b.captures.length
+	return a.id - b.id
+}
+
+/**
+ * Convert the list of redirections from the server to a dictionary for fast lookups,
+ * with pattern redirections pre-compiled.
+ */
+const buildRedirectionsMap = (redirectionsFromServer: Redirections): RedirectionsMap => {
+
+	const redirectionsMap: RedirectionsMap = {
+		lastAccessDate: redirectionsFromServer.lastAccessDate,
+		isUpToDate: redirectionsFromServer.isUpToDate,
+		items: {},
+		patterns: []
+	}
 
-		const key = 'redirections'
-		let filepath = 'data/redirections.json'
+	redirectionsFromServer.items.forEach((redirection) => {
 
-		let redirectionRes: RedirectionsMap | undefined
-		let fileExists = false
-		try {
-			await fs.access(filepath, fs.constants.F_OK)
-			fileExists = true
-		} catch (e) { }
+		const key = normalizeOriginUrl(redirection.originUrl)
 
-		if (fileExists) {
-			let redirectionStr = await fs.readFile(filepath, 'utf8')
-			redirectionRes = JSON.parse(redirectionStr) as RedirectionsMap
+		//massage the destination key in case the user has a leading ~/
+		if (redirection.destinationUrl.startsWith("~/")) {
+			redirection.destinationUrl = redirection.destinationUrl.substring(1)
 		}
 
-		if (!forceUpdate && redirectionRes && redirectionRes.isUpToDate) {
-			//if the redirections are up to date, return them...
-			return redirectionRes
+		if (isPatternKey(key)) {
+			//pre-compile wildcard and named segment redirections so middleware doesn't have to
+			redirectionsMap.patterns.push(compilePattern(key, redirection))
+		} else {
+			redirectionsMap.items[key] = redirection
 		}
+	});
 
-		let lastAccessDate: Date | null | undefined = undefined
+	redirectionsMap.patterns.sort(comparePatterns)
 
-		const redirectionsFromServer = await agilitySDK.getUrlRedirections({ lastAccessDate }) as Redirections
+	return redirectionsMap
+}
+
+/**
+ * Get the cached list of redirections from the data store, without calling the server.
+ * @returns
+ */
+export const getCachedRedirections = async (): Promise<RedirectionsMap | null> => {
+	try {
+		const redirectionStr = await getDataStore().get(REDIRECTIONS_KEY)
+		if (!redirectionStr) return null
+		return JSON.parse(redirectionStr) as RedirectionsMap
+	} catch (error) {
+		console.error('Failed to read cached redirections:', error);
+		return null
+	}
+}
+
+/**
+ * Get the list of redirections, refreshing the data store if the server has changes.
+ * Unless we are forcing an update, the server is asked for changes since the `lastAccessDate` of the cached list.
+ * @param params
+ * @returns
+ */
+export const getRedirections = async ({ forceUpdate = false }: Props): Promise<RedirectionsMap> => {
 
-		//only update the cache if the server has new data, or we are forcing an update
-		if (!redirectionsFromServer.isUpToDate) {
 
-			// Convert the server redirections to a dictionary
-			const redirectionsMap: RedirectionsMap = {
-				lastAccessDate: redirectionsFromServer.lastAccessDate,
-				isUpToDate: redirectionsFromServer.isUpToDate,
-				items: {}
-			}
+	const apiKey = process.env.AGILITY_API_FETCH_KEY
 
-			// Convert the server redirections list to a dictionary for fast lookups
-			redirectionsFromServer.items.forEach((redirection) => {
+	const agilitySDK = createAgilityClient({
+		guid: process.env.AGILITY_GUID,
+		apiKey,
+		isPreview: false
+	});
 
-				//massage the origin key in case the user has a leading ~/ or leading https:// absolute path
-				let key = redirection.originUrl.toLowerCase()
-				if (key.startsWith("~/")) key = key.substring(1)
+	//don't cache the redirections with nextjs cache - we are gonna do that manually...
+	agilitySDK.config.fetchConfig = getFetchConfig({ tags: [], referenceName: "redirections" })
 
-				if (key.includes("://")) {
-					const hostIndex = key.indexOf("/", key.indexOf("://") + 3)
-					key = key.substring(hostIndex)
-				}
+	try {
 
-				//massage the destination key in case the user has a leading ~/
-				if (redirection.destinationUrl.startsWith("~/")) {
-					redirection.destinationUrl = redirection.destinationUrl.substring(1)
-				}
+		const store = getDataStore()
+		const cachedRedirections = forceUpdate ? null : await getCachedRedirections()
 
-				redirectionsMap.items[key] = redirection
-			});
+		//only ask for the changes since we last checked if we have a cached list
+		let lastAccessDate: Date | null | undefined = undefined
+		if (cachedRedirections?.lastAccessDate) {
+			lastAccessDate = DateTime.fromISO(cachedRedirections.lastAccessDate).toJSDate()
+		}
 
-			// Write the server redirections to the file system
-			await fs.writeFile(filepath, JSON.stringify(redirectionsMap), 'utf8')
+		const redirectionsFromServer = await agilitySDK.getUrlRedirections({ lastAccessDate }) as Redirections
 
-			return redirectionsMap
+		if (redirectionsFromServer.isUpToDate && cachedRedirections) {
+			//nothing has changed since the last access date, the cached list is still good
+			return { ...cachedRedirections, isUpToDate: true }
 		}
 
+		//the server has new data (or we are forcing an update) - update the store
+		const redirectionsMap = buildRedirectionsMap(redirectionsFromServer)
+		await store.set(REDIRECTIONS_KEY, JSON.stringify(redirectionsMap))
+
+		return redirectionsMap
+
 	} catch (error) {
 		console.error('Failed to fetch or cache redirections:', error);
 	}
@@ -122,7 +225,8 @@ export const getRedirections = async ({ forceUpdate = false }: Props): Promise<R
 	return {
 		lastAccessDate: DateTime.now().toISO(),
 		isUpToDate: false,
-		items: {}
+		items: {},
+		patterns: []
 	}
 
-}
\ No newline at end of file
+}
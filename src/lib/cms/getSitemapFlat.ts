@@ -1,4 +1,6 @@
-import getAgilitySDK from "@/lib/cms/getAgilitySDK"
+import { contentClient } from "@/lib/cms/contentClient"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { defaultLocale } from "@/lib/i18n/config"
 
 import { type SitemapFlatRequestParams } from "@agility/content-fetch/dist/methods/getSitemapFlat"
 
@@ -10,15 +12,8 @@ import { type SitemapFlatRequestParams } from "@agility/content-fetch/dist/metho
 export const getSitemapFlat = async (params: SitemapFlatRequestParams) => {
 
 
-	const agilitySDK = await getAgilitySDK()
-
-	agilitySDK.config.fetchConfig = {
-		next: {
-			tags: [`agility-sitemap-flat-${params.languageCode || params.locale}`],
-			revalidate: 60,
-		},
-	}
-
-	return await agilitySDK.getSitemapFlat(params)
+	return await contentClient.getSitemapFlat(params, {
+		tags: [cacheTags.sitemapFlat(params.languageCode || params.locale || defaultLocale)]
+	})
 
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import getAgilitySDK from "@/lib/cms/getAgilitySDK"
+import { contentClient } from "@/lib/cms/contentClient"
+import { cacheTags } from "@/lib/cms/cachePolicy"
+import { defaultLocale } from "@/lib/i18n/config"
 
 import { type SitemapNestedRequestParams } from "@agility/content-fetch/dist/methods/getSitemapNested"
 
@@ -10,15 +12,8 @@ import { type SitemapNestedRequestParams } from "@agility/content-fetch/dist/met
 export const getSitemapNested = async (params: SitemapNestedRequestParams) => {
 
 
-	const agilitySDK = await getAgilitySDK()
-
-	agilitySDK.config.fetchConfig = {
-		next: {
-			tags: [`agility-sitemap-nested-${params.languageCode || params.locale}`],
-			revalidate: 60,
-		},
-	}
-
-	return await agilitySDK.getSitemapNested(params)
+	return await contentClient.getSitemapNested(params, {
+		tags: [cacheTags.sitemapNested(params.languageCode || params.locale || defaultLocale)]
+	})
 
 }
\ No newline at end of file
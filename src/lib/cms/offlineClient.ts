@@ -0,0 +1,192 @@
+import fs from "fs"
+import path from "path"
+import type { ApiClientInstance, ContentItem, Filter, Page } from "@agility/content-fetch"
+import type { AgilityPageProps } from "@agility/nextjs"
+import type { SitemapNode } from "../types/SitemapNode"
+
+//where `npm run snapshot-fixtures` saves the content, relative to the project root
+export const FIXTURES_DIR = "data/fixtures"
+
+/**
+ * Check whether content should be served from the fixtures in `data/fixtures` instead of the Agility API.
+ * Turned on with `AGILITY_OFFLINE=1`.
+ * @returns
+ */
+export const isOfflineMode = () => process.env.AGILITY_OFFLINE === "1" || process.env.AGILITY_OFFLINE === "true"
+
+/**
+ * Get the path of a fixture file.
+ * @param parts the locale (if any), folder and file name, e.g. `["en-us", "items", "123"]`
+ * @returns
+ */
+export const getFixturePath = (...parts: (string | number)[]) => {
+	return path.join(process.cwd(), FIXTURES_DIR, ...parts.map(String)) + ".json"
+}
+
+/**
+ * Read a fixture, or undefined if it hasn't been snapshotted - the same as the SDK returns for a 404.
+ */
+const readFixture = <T>(...parts: (string | number)[]): T | undefined => {
+	const fixturePath = getFixturePath(...parts)
+	try {
+		return JSON.parse(fs.readFileSync(fixturePath, "utf8")) as T
+	} catch (error) {
+		console.warn(`AgilityCMS (offline) => No fixture found at ${path.relative(process.cwd(), fixturePath)}`)
+		return undefined
+	}
+}
+
+const getLocale = (params: { locale?: string, languageCode?: string }) => (params.locale || params.languageCode || "").toLowerCase()
+
+/**
+ * Get a value from an item by a dotted path, e.g. `fields.postDate`.
+ */
+const getProperty = (item: any, property: string) => property.split(".").reduce((value, key) => value?.[key], item)
+
+/**
+ * Check an item against a content list filter. The value is compared as a string, without the quotes the API expects.
+ */
+const matchesFilter = (item: ContentItem<any>, filter: Filter) => {
+	const value = getProperty(item, filter.property)
+	const expected = `${filter.value}`.replace(/^"(.*)"$/, "$1")
+	const actual = value === undefined || value === null ? "" : `${value}`
+
+	switch (filter.operator) {
+		case "eq": return actual.toLowerCase() === expected.toLowerCase()
+		case "ne": return actual.toLowerCase() !== expected.toLowerCase()
+		case "gt": return actual > expected
+		case "gte": return actual >= expected
+		case "lt": return actual < expected
+		case "lte": return actual <= expected
+		case "like":
+		case "contains": return actual.toLowerCase().includes(expected.toLowerCase())
+		case "in": return expected.split(",").map(v => v.trim().toLowerCase()).includes(actual.toLowerCase())
+		default:
+			console.warn(`AgilityCMS (offline) => Filter operator "${filter.operator}" isn't supported offline, ignoring it`)
+			return true
+	}
+}
+
+/**
+ * Create a client with the same methods and response shapes as the Agility SDK client, served from the fixtures.
+ * Content lists are filtered, sorted and paged in memory.
+ * @returns
+ */
+export const createOfflineClient = (): ApiClientInstance => {
+	const client: ApiClientInstance = {
+		config: { isPreview: false, fetchConfig: {} },
+
+		makeRequest: async () => {
+			throw new Error("AgilityCMS (offline) => makeRequest is not available in offline mode")
+		},
+
+		getSitemapFlat: async (params) => readFixture<{ [path: string]: SitemapNode }>(getLocale(params), "sitemap-flat"),
+
+		getSitemapNested: async (params) => readFixture<any[]>(getLocale(params), "sitemap-nested"),
+
+		getPage: async (params) => readFixture<Page>(getLocale(params), "pages", params.pageID),
+
+		getPageByPath: async (params) => {
+			const sitemap = readFixture<{ [path: string]: SitemapNode }>(getLocale(params), "sitemap-flat")
+			const node = sitemap?.[params.pagePath]
+			return node ? readFixture<Page>(getLocale(params), "pages", node.pageID) : undefined
+		},
+
+		getContentItem: async (params) => readFixture<ContentItem<any>>(getLocale(params), "items", params.contentID),
+
+		getContentList: async (params) => {
+			const list = readFixture<{ items: ContentItem<any>[], totalCount: number }>(getLocale(params), "lists", params.referenceName.toLowerCase())
+			if (!list) return undefined
+
+			let items = list.items
+
+			if (params.filters && params.filters.length > 0) {
+				const isOr = `${params.filtersLogicOperator || ""}`.trim().toLowerCase() === "or"
+				items = items.filter(item => isOr
+					? params.filters!.some(filter => matchesFilter(item, filter))
+					: params.filters!.every(filter => matchesFilter(item, filter)))
+			} else if (params.filterString) {
+				console.warn(`AgilityCMS (offline) => filterString isn't supported offline, returning the unfiltered list`)
+			}
+
+			if (params.sort) {
+				const direction = `${params.direction || "asc"}`.toLowerCase() === "desc" ? -1 : 1
+				items = [...items].sort((a, b) => {
+					const aValue = getProperty(a, params.sort!)
+					const bValue = getProperty(b, params.sort!)
+					if (aValue === bValue) return 0
+					return (aValue > bValue ? 1 : -1) * direction
+				})
+			}
+
+			const skip = params.skip || 0
+			const take = params.take || 10
+
+			return {
+				items: items.slice(skip, skip + take),
+				totalCount: items.length
+			}
+		},
+
+		getGallery: async (params) => readFixture<any>("galleries", params.galleryID),
+
+		getUrlRedirections: async (params) => {
+			const redirections = readFixture<{ lastAccessDate: string, isUpToDate: boolean, items: any[] }>("redirections")
+			if (!redirections) return undefined
+
+			//the fixtures don't change while offline, so anything after the snapshot is up to date
+			if (params.lastAccessDate && new Date(params.lastAccessDate) >= new Date(redirections.lastAccessDate)) {
+				return { lastAccessDate: redirections.lastAccessDate, isUpToDate: true, items: [] }
+			}
+			return redirections
+		},
+
+		getSyncContent: async () => {
+			throw new Error("AgilityCMS (offline) => getSyncContent is not available in offline mode")
+		},
+
+		getSyncPages: async () => {
+			throw new Error("AgilityCMS (offline) => getSyncPages is not available in offline mode")
+		},
+	}
+
+	return client
+}
+
+/**
+ * Get the props for a page from the fixtures, in the same shape as `getAgilityPageProps` from `@agility/nextjs/node`.
+ * @param param0 the slug of the page and its locale
+ * @returns
+ */
+export const getOfflinePageProps = async ({ slug, locale, isPreview, isDevelopmentMode }: { slug: string[], locale: string, isPreview: boolean, isDevelopmentMode: boolean }): Promise<AgilityPageProps> => {
+
+	const client = createOfflineClient()
+	const languageCode = locale.toLowerCase()
+	const channelName = process.env.AGILITY_SITEMAP || "website"
+	const pagePath = slug.map(s => `/${s}`).join("")
+
+	const sitemap = await client.getSitemapFlat({ channelName, languageCode }) as { [path: string]: SitemapNode } | undefined
+
+	//the root is the first page in the sitemap
+	const sitemapNode = sitemap ? (pagePath === "/" ? Object.values(sitemap)[0] : sitemap[pagePath]) : undefined
+
+	const page: Page | undefined = sitemapNode ? await client.getPage({ pageID: sitemapNode.pageID, languageCode, contentLinkDepth: 0 }) : undefined
+	const notFound = !page
+
+	const dynamicPageItem = !notFound && sitemapNode && (sitemapNode.contentID || 0) > 0
+		? await client.getContentItem({ contentID: sitemapNode.contentID!, languageCode })
+		: null
+
+	return {
+		sitemapNode: (sitemapNode || null) as AgilityPageProps["sitemapNode"],
+		page,
+		dynamicPageItem,
+		pageTemplateName: page ? page.templateName.replace(/[^0-9a-zA-Z]/g, "") : null,
+		globalData: {},
+		languageCode,
+		channelName,
+		isPreview,
+		isDevelopmentMode,
+		notFound,
+	}
+}
@@ -0,0 +1,41 @@
+import type { ContentItem } from "@agility/content-fetch"
+import { contentModelSchemas } from "@/lib/types/generated"
+
+//each mismatch is only logged once per instance, rather than on every fetch
+const reportedMismatches = new Set<string>()
+
+/**
+ * Check whether fetched content should be validated against the generated content model validators.
+ * Turned on with `AGILITY_VALIDATE_CONTENT=true`.
+ * @returns
+ */
+export const isContentValidationEnabled = () => process.env.AGILITY_VALIDATE_CONTENT === "true"
+
+/**
+ * Validate the fields of content items against the validators generated from the content models (see `npm run generate-types`),
+ * and log any fields that don't match. Items with no generated validator are skipped.
+ * @param items the fetched items
+ * @param source what was fetched, for the log
+ */
+export const validateContentItems = (items: (ContentItem<any> | null | undefined)[], source: string) => {
+
+	items.forEach((item) => {
+		const definitionName = item?.properties?.definitionName
+		if (!item || !definitionName) return
+
+		const schema = contentModelSchemas[definitionName.toLowerCase()]
+		if (!schema) return
+
+		const result = schema.safeParse(item.fields)
+		if (result.success) return
+
+		result.error.issues.forEach((issue) => {
+			const field = issue.path.join(".")
+			const mismatchKey = `${definitionName}|${field}|${issue.code}`
+			if (reportedMismatches.has(mismatchKey)) return
+			reportedMismatches.add(mismatchKey)
+
+			console.warn(`Content model mismatch: ${definitionName}.${field} on item ${item.contentID} (${source}) - ${issue.message}`)
+		})
+	})
+}
@@ -0,0 +1,144 @@
+import "server-only";
+import { createHmac, timingSafeEqual } from "crypto"
+import { DateTime } from "luxon"
+import { z } from "zod"
+
+//how old a webhook can be (by its changeDateUTC) before it's treated as a replay
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60
+
+//how many recently processed webhooks to remember so the same one can't be replayed inside the window
+const MAX_SEEN_WEBHOOKS = 500
+
+/**
+ * The body of an Agility CMS publish webhook.
+ */
+export const revalidateRequestSchema = z.object({
+	state: z.string(),
+	instanceGuid: z.string(),
+	languageCode: z.string().optional(),
+	referenceName: z.string().optional(),
+	contentID: z.number().int().optional(),
+	contentVersionID: z.number().int().optional(),
+	pageID: z.number().int().optional(),
+	pageVersionID: z.number().int().optional(),
+	changeDateUTC: z.string().optional()
+})
+
+export type IRevalidateRequest = z.infer<typeof revalidateRequestSchema>
+
+type VerifyResult =
+	| { success: true, data: IRevalidateRequest }
+	| { success: false, status: number, error: string }
+
+const seenWebhooks = new Set<string>()
+
+/**
+ * Compare two strings without leaking where they differ through timing.
+ */
+const safeCompare = (a: string, b: string) => {
+	const aBuffer = Buffer.from(a)
+	const bBuffer = Buffer.from(b)
+	return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer)
+}
+
+/**
+ * Check the request is signed with, or carries, the `AGILITY_SECURITY_KEY`.
+ * - `x-agility-signature`: hex HMAC-SHA256 of the raw body (optionally prefixed with `sha256=`)
+ * - `x-agility-security-key` header or `key` query param: the shared secret itself
+ */
+const isAuthenticated = (req: Request, rawBody: string, securityKey: string) => {
+
+	const signature = req.headers.get("x-agility-signature")
+	if (signature) {
+		const expected = createHmac("sha256", securityKey).update(rawBody).digest("hex")
+		return safeCompare(signature.replace(/^sha256=/, ""), expected)
+	}
+
+	const sharedSecret = req.headers.get("x-agility-security-key") || new URL(req.url).searchParams.get("key")
+	if (sharedSecret) {
+		return safeCompare(sharedSecret, securityKey)
+	}
+
+	return false
+}
+
+/**
+ * Check a request carries the `AGILITY_SECURITY_KEY` as the `x-agility-security-key` header or `key` query param.
+ * Protects the diagnostics routes outside of development.
+ * @param req
+ * @returns
+ */
+export const hasSecurityKey = (req: Request) => {
+	const securityKey = process.env.AGILITY_SECURITY_KEY
+	const key = req.headers.get("x-agility-security-key") || new URL(req.url).searchParams.get("key")
+	return !!securityKey && !!key && safeCompare(key, securityKey)
+}
+
+/**
+ * Check the webhook isn't stale and hasn't already been processed.
+ */
+const isReplay = (data: IRevalidateRequest) => {
+
+	if (!data.changeDateUTC) return false
+
+	//agility sends the change date in UTC without a zone designator
+	const changeDate = DateTime.fromISO(data.changeDateUTC, { zone: "utc" })
+	if (!changeDate.isValid) return true
+
+	const ageSeconds = Math.abs(DateTime.utc().diff(changeDate, "seconds").seconds)
+	if (ageSeconds > MAX_WEBHOOK_AGE_SECONDS) return true
+
+	const webhookKey = [
+		data.state, data.languageCode, data.contentID, data.contentVersionID,
+		data.pageID, data.pageVersionID, data.changeDateUTC
+	].join("|")
+
+	if (seenWebhooks.has(webhookKey)) return true
+
+	seenWebhooks.add(webhookKey)
+	if (seenWebhooks.size > MAX_SEEN_WEBHOOKS) {
+		//sets iterate in insertion order, so this drops the oldest
+		const oldest = seenWebhooks.values().next().value
+		if (oldest) seenWebhooks.delete(oldest)
+	}
+
+	return false
+}
+
+/**
+ * Verify a revalidation webhook: authenticate it, validate the body and reject replays.
+ * @param req
+ * @returns the parsed body, or the status and error to respond with
+ */
+export const verifyRevalidateRequest = async (req: Request): Promise<VerifyResult> => {
+
+	const securityKey = process.env.AGILITY_SECURITY_KEY
+	if (!securityKey) {
+		console.error("AGILITY_SECURITY_KEY is not set - rejecting revalidation request")
+		return { success: false, status: 500, error: "Revalidation is not configured" }
+	}
+
+	const rawBody = await req.text()
+
+	if (!isAuthenticated(req, rawBody, securityKey)) {
+		return { success: false, status: 401, error: "Invalid signature or security key" }
+	}
+
+	let body: unknown
+	try {
+		body = JSON.parse(rawBody)
+	} catch (e) {
+		return { success: false, status: 400, error: "Invalid JSON body" }
+	}
+
+	const parsed = revalidateRequestSchema.safeParse(body)
+	if (!parsed.success) {
+		return { success: false, status: 400, error: `Invalid body: ${parsed.error.issues.map(i => `${i.path.join(".")} ${i.message}`).join(", ")}` }
+	}
+
+	if (isReplay(parsed.data)) {
+		return { success: false, status: 409, error: "Stale or replayed webhook" }
+	}
+
+	return { success: true, data: parsed.data }
+}
@@ -0,0 +1,39 @@
+import { getAllDocFiles } from './getDocsFiles'
+import { toAbsoluteUrl } from '@/lib/utils/siteUrl'
+import type { SitemapEntry } from '@/lib/utils/sitemapXml'
+
+/**
+ * Get the sitemap entries for the /docs pages.
+ * This is demo-site-specific - a real Agility CMS site wouldn't have a /docs section.
+ */
+export function getDocsSitemapEntries(): SitemapEntry[] {
+	const docsEntries: SitemapEntry[] = []
+	const addedPaths = new Set<string>()
+
+	getAllDocFiles().forEach((file) => {
+		const isReadme = file.slug[file.slug.length - 1] === 'README'
+
+		// Skip root README (docs/README.md) - it's the docs index entry below
+		if (isReadme && file.slug.length === 1) return
+
+		// For README files, add the folder path (without README)
+		const docPath = isReadme ? file.slug.slice(0, -1).join('/') : file.slug.join('/')
+		if (docPath && !addedPaths.has(docPath)) {
+			docsEntries.push({
+				url: toAbsoluteUrl(`/docs/${docPath}`),
+				changeFrequency: 'weekly',
+				priority: 0.8
+			})
+			addedPaths.add(docPath)
+		}
+	})
+
+	// Add docs index page
+	docsEntries.unshift({
+		url: toAbsoluteUrl('/docs'),
+		changeFrequency: 'weekly',
+		priority: 0.9
+	})
+
+	return docsEntries
+}
@@ -2,8 +2,7 @@
 
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import { useCallback, useRef } from 'react'
-import type { IAudience } from '@/lib/types/IAudience'
-import type { IRegion } from '@/lib/types/IRegion'
+import type { IAudience, IRegion } from '@/lib/types/generated'
 import { analytics } from '@/lib/analytics'
 import { AnalyticsEvents } from '@/lib/analytics/events'
 
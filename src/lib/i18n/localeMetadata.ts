@@ -0,0 +1,150 @@
+import { defaultLocale } from "./config"
+
+export interface LocaleMetadata {
+  /** The Agility locale code, e.g. `fr-ca` */
+  code: string
+  /** The language's name in its own language, e.g. `Français` */
+  nativeName: string
+  /** The language's name in English, e.g. `French` */
+  englishName: string
+  /** A flag for the switcher, or a globe when the locale has no region */
+  flag: string
+  dir: "ltr" | "rtl"
+  /** The code for `hreflang` and `lang` attributes, e.g. `fr-CA` */
+  hreflang: string
+  /** The locale for Intl formatting */
+  intlLocale: string
+  /** The ISO 4217 currency for prices */
+  currency: string
+  /** How dates are formatted: `short` in listings, `long` on detail pages */
+  dateFormats: {
+    short: Intl.DateTimeFormatOptions
+    long: Intl.DateTimeFormatOptions
+  }
+}
+
+type LocaleOverrides = Partial<Omit<LocaleMetadata, "code">>
+
+// Locales that need something other than the defaults worked out from the code - any other locale in AGILITY_LOCALES still works
+const LOCALE_OVERRIDES: Record<string, LocaleOverrides> = {
+  "en-us": {
+    dateFormats: {
+      short: { month: "short", day: "2-digit", year: "numeric" },
+      long: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
+    },
+  },
+}
+
+// The region to assume for a locale without one (for its flag and currency)
+const LANGUAGE_REGIONS: Record<string, string> = {
+  en: "US", fr: "FR", es: "ES", de: "DE", it: "IT", pt: "PT", nl: "NL", ja: "JP", zh: "CN", ko: "KR",
+  ar: "SA", he: "IL", fa: "IR", ur: "PK", sv: "SE", da: "DK", nb: "NO", fi: "FI", pl: "PL", ru: "RU", tr: "TR", hi: "IN",
+}
+
+const REGION_CURRENCIES: Record<string, string> = {
+  US: "USD", CA: "CAD", GB: "GBP", AU: "AUD", NZ: "NZD", IE: "EUR", IN: "INR", MX: "MXN", BR: "BRL", AR: "ARS",
+  JP: "JPY", CN: "CNY", TW: "TWD", HK: "HKD", KR: "KRW", SA: "SAR", AE: "AED", IL: "ILS", IR: "IRR", PK: "PKR", CH: "CHF",
+  SE: "SEK", DK: "DKK", NO: "NOK", PL: "PLN", RU: "RUB", TR: "TRY",
+}
+
+const EURO_REGIONS = ["FR", "DE", "ES", "IT", "PT", "NL", "BE", "AT", "FI", "GR", "LU"]
+
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur", "yi", "ps"]
+
+const DEFAULT_DATE_FORMATS: LocaleMetadata["dateFormats"] = {
+  short: { month: "short", day: "numeric", year: "numeric" },
+  long: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
+}
+
+/**
+ * Converts an Agility locale code to a BCP 47 language tag, e.g. `fr-ca` to `fr-CA`
+ */
+export function toHreflang(code: string): string {
+  const [language, ...rest] = code.split(/[-_]/)
+  return [
+    language.toLowerCase(),
+    ...rest.map(part => part.length === 2 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()),
+  ].join("-")
+}
+
+/**
+ * Gets the flag emoji for a region, from its regional indicator symbols
+ */
+const getRegionFlag = (region: string) => region.length === 2
+  ? String.fromCodePoint(...[...region.toUpperCase()].map(c => 0x1f1e6 + c.charCodeAt(0) - 65))
+  : "🌐"
+
+const getDisplayName = (tag: string, inLocale: string) => {
+  try {
+    const name = new Intl.DisplayNames([inLocale], { type: "language" }).of(tag) || tag
+    return name.charAt(0).toLocaleUpperCase(inLocale) + name.slice(1)
+  } catch {
+    return tag
+  }
+}
+
+const cache = new Map<string, LocaleMetadata>()
+
+/**
+ * Gets the metadata for a locale - worked out from the locale code, with any overrides for it
+ * @param code the Agility locale code, e.g. `en-us`
+ */
+export function getLocaleMetadata(code: string): LocaleMetadata {
+  const key = code.toLowerCase()
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const hreflang = toHreflang(key)
+  const [language, ...parts] = hreflang.split("-")
+  const region = parts.find(part => /^[A-Z]{2}$/.test(part))
+  const currencyRegion = region || LANGUAGE_REGIONS[language] || ""
+
+  const metadata: LocaleMetadata = {
+    code: key,
+    //just the language - the flag shows the region
+    nativeName: getDisplayName(language, hreflang),
+    englishName: getDisplayName(language, "en"),
+    flag: region ? getRegionFlag(region) : LANGUAGE_REGIONS[language] ? getRegionFlag(LANGUAGE_REGIONS[language]) : "🌐",
+    dir: RTL_LANGUAGES.includes(language) ? "rtl" : "ltr",
+    hreflang,
+    intlLocale: hreflang,
+    currency: REGION_CURRENCIES[currencyRegion] || (EURO_REGIONS.includes(currencyRegion) ? "EUR" : "USD"),
+    dateFormats: DEFAULT_DATE_FORMATS,
+    ...LOCALE_OVERRIDES[key],
+  }
+
+  cache.set(key, metadata)
+  return metadata
+}
+
+/**
+ * Gets the URL prefix for a locale - the default locale isn't prefixed
+ */
+export function getLocalePrefix(code: string): string {
+  return code.toLowerCase() === defaultLocale.toLowerCase() ? "" : `/${code}`
+}
+
+/**
+ * Formats a date for a locale
+ * @param date a date, or a date string from Agility
+ * @param code the Agility locale code
+ * @param format `short` for listings, `long` for detail pages
+ */
+export function formatLocaleDate(date: Date | string, code: string, format: keyof LocaleMetadata["dateFormats"] = "short"): string {
+  const value = typeof date === "string" ? new Date(date) : date
+  if (isNaN(value.getTime())) return ""
+
+  const { intlLocale, dateFormats } = getLocaleMetadata(code)
+  return new Intl.DateTimeFormat(intlLocale, dateFormats[format]).format(value)
+}
+
+/**
+ * Formats an amount of money for a locale
+ * @param amount
+ * @param code the Agility locale code
+ * @param currency the ISO 4217 currency code, if not the locale's own currency
+ */
+export function formatLocaleCurrency(amount: number, code: string, currency?: string): string {
+  const metadata = getLocaleMetadata(code)
+  return new Intl.NumberFormat(metadata.intlLocale, { style: "currency", currency: currency || metadata.currency }).format(amount)
+}
@@ -1,9 +1,10 @@
 import { type URLField } from "@agility/nextjs"
-import { type Locale, defaultLocale } from "./config"
+import { type Locale } from "./config"
+import { getLocalePrefix } from "./localeMetadata"
 
 /**
  * Localizes a URL based on the current locale
- * For default locale (en-us), returns the URL as is
+ * For the default locale (the first in AGILITY_LOCALES), returns the URL as is
  * For other locales, prefixes the URL with the locale
  */
 export function localizeUrl(url: string, locale: Locale): string {
@@ -12,21 +13,18 @@ export function localizeUrl(url: string, locale: Locale): string {
     return url
   }
 
+  // The default locale isn't prefixed
+  const prefix = getLocalePrefix(locale)
+
   // Handle root URL
   if (url === '/' || url === '') {
-    return locale === defaultLocale ? '/' : `/${locale}`
+    return prefix || '/'
   }
 
   // Ensure URL starts with /
   const normalizedUrl = url.startsWith('/') ? url : `/${url}`
 
-  // For default locale, return URL as is
-  if (locale === defaultLocale) {
-    return normalizedUrl
-  }
-
-  // For other locales, add locale prefix
-  return `/${locale}${normalizedUrl}`
+  return `${prefix}${normalizedUrl}`
 }
 
 /**
@@ -38,4 +36,13 @@ export function localizeUrlField(urlField: URLField | null | undefined, locale:
   }
 
   return localizeUrl(urlField.href, locale)
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the internal route path for a URL in a locale - middleware rewrites every
+ * unprefixed (default locale) URL to `/{locale}/...`, so this is the path Next.js caches the page under.
+ */
+export function getLocaleRoutePath(url: string, locale: Locale): string {
+  const normalizedUrl = url.startsWith('/') ? url : `/${url}`
+  return normalizedUrl === '/' ? `/${locale}` : `/${locale}${normalizedUrl}`
+}
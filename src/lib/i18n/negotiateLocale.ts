@@ -0,0 +1,86 @@
+// The visitor's locale - set when it's negotiated on a first visit, and when they pick one in the language toggle
+export const LOCALE_COOKIE = 'NEXT_LOCALE'
+
+// Set by the language toggle - the visitor chose their locale, so it always wins over Accept-Language
+export const LOCALE_CHOICE_COOKIE = 'NEXT_LOCALE_CHOSEN'
+
+// Keep the locale for a year
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+// Crawlers get the URL they asked for, so every locale is indexed under its own URL
+const BOT_PATTERN = /bot|crawl|spider|slurp|bingpreview|facebookexternalhit|embedly|quora link preview|outbrain|pinterest|vkshare|w3c_validator|lighthouse|headless|preview/i
+
+/**
+ * Checks if a request is from a crawler (or has no user agent at all)
+ */
+export function isBot(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent)
+}
+
+/**
+ * Parses an Accept-Language header into language tags, most preferred first
+ * e.g. `fr-CA,fr;q=0.9,en;q=0.8` => `['fr-ca', 'fr', 'en']`
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return []
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='))
+      return { tag: tag.trim().toLowerCase(), quality: q ? parseFloat(q.slice(2)) : 1, index }
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && !isNaN(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag)
+}
+
+/**
+ * Finds the best of the site's locales for an Accept-Language header.
+ * Each preferred language is matched exactly (`fr-ca`), then by its language (`fr-ca` => `fr`, or `fr` => `fr-ca`).
+ * @returns the locale, or null if none match
+ */
+export function matchLocale(acceptLanguage: string | null | undefined, locales: readonly string[]): string | null {
+  const languageOf = (tag: string) => tag.split('-')[0]
+
+  for (const preferred of parseAcceptLanguage(acceptLanguage)) {
+    const exact = locales.find(locale => locale.toLowerCase() === preferred)
+    if (exact) return exact
+
+    const sameLanguage = locales.find(locale => languageOf(locale.toLowerCase()) === languageOf(preferred))
+    if (sameLanguage) return sameLanguage
+  }
+
+  return null
+}
+
+/**
+ * Works out which locale a visitor should see: the one they chose in the language toggle,
+ * then the one remembered from their first visit, then the best match for their Accept-Language header.
+ * @returns the locale, and whether it came from the visitor's own choice
+ */
+export function negotiateLocale({ cookieLocale, hasChosen, acceptLanguage, locales, defaultLocale }: {
+  cookieLocale: string | undefined
+  hasChosen: boolean
+  acceptLanguage: string | null
+  locales: readonly string[]
+  defaultLocale: string
+}): { locale: string, isChoice: boolean } {
+  const remembered = cookieLocale ? locales.find(locale => locale.toLowerCase() === cookieLocale.toLowerCase()) : undefined
+
+  if (remembered) return { locale: remembered, isChoice: hasChosen }
+  if (hasChosen) return { locale: defaultLocale, isChoice: true }
+
+  return { locale: matchLocale(acceptLanguage, locales) || defaultLocale, isChoice: false }
+}
+
+/**
+ * Remembers the locale the visitor picked, so it wins over their Accept-Language header from now on.
+ * Call from the browser.
+ */
+export function rememberLocaleChoice(locale: string) {
+  if (typeof document === 'undefined') return
+  document.cookie = `${LOCALE_COOKIE}=${encodeURIComponent(locale)}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`
+  document.cookie = `${LOCALE_CHOICE_COOKIE}=1; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`
+}
@@ -1,7 +0,0 @@
-import type { ImageField } from "@agility/nextjs"
-
-export interface IAudience {
-	name: string
-	description: string
-	icon: ImageField
-}
@@ -1,6 +0,0 @@
-import type { ImageField } from "@agility/nextjs"
-
-export interface IAuthor {
-	name: String
-	headShot: ImageField
-}
\ No newline at end of file
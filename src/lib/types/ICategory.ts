@@ -1,3 +0,0 @@
-export interface ICategory {
-	name: string
-}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import type { ImageField, URLField } from "@agility/nextjs"
-import type { IAudience } from "./IAudience"
+import type { IAudience } from "./generated"
 
 export interface IPersonalizedBackgroundHero {
 	heading: string
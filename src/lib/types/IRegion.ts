@@ -1,4 +0,0 @@
-export interface IRegion {
-	name: string
-
-}
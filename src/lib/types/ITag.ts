@@ -1,3 +0,0 @@
-export interface ITag {
-	title: String
-}
\ No newline at end of file
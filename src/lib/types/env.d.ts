@@ -10,6 +10,17 @@ declare global {
 			AGILITY_SITEMAP: string
 			AGILITY_FETCH_CACHE_DURATION: string
 			AGILITY_PATH_REVALIDATE_DURATION: string
+			//set to "true" to validate fetched content against the generated content model validators
+			AGILITY_VALIDATE_CONTENT: string | undefined
+			//set to "1" to serve content from the fixtures in data/fixtures instead of the Agility API
+			AGILITY_OFFLINE: string | undefined
+			//set to "true" to let the prebuild step carry on when the redirects can't be validated
+			AGILITY_ALLOW_UNVALIDATED_REDIRECTS: string | undefined
+
+			//the public origin of the site, e.g. https://www.example.com - for canonical urls, hreflang alternates, the sitemap and feeds
+			SITE_URL: string | undefined
+			//set by Vercel - the fallback when SITE_URL isn't set
+			VERCEL_PROJECT_PRODUCTION_URL: string | undefined
 
 			// PostHog Environment Variables
 			NEXT_PUBLIC_POSTHOG_KEY: string
@@ -28,6 +39,10 @@ declare global {
 			OPENAI_API_KEY: string | undefined
 			OPENAI_API_MODEL: string | undefined
 
+			//Data Store Environment Variables - redirections and the dependency graph (KV REST API, file system if not set)
+			KV_REST_API_URL: string | undefined
+			KV_REST_API_TOKEN: string | undefined
+
 
 
 			// Node.js Environment Variables
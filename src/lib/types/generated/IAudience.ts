@@ -0,0 +1,20 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ImageField } from "@agility/nextjs"
+import { imageFieldSchema } from "./fieldSchemas"
+
+/**
+ * Audience (`Audience`)
+ */
+export interface IAudience {
+	name: string
+	description?: string | null
+	icon?: ImageField | null
+}
+
+export const audienceSchema = z.object({
+	name: z.string(),
+	description: z.string().nullish(),
+	icon: imageFieldSchema.nullish(),
+}).passthrough()
@@ -0,0 +1,30 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ImageField } from "@agility/nextjs"
+import { imageFieldSchema } from "./fieldSchemas"
+
+/**
+ * Author (`Author`)
+ */
+export interface IAuthor {
+	name: string
+	headShot?: ImageField | null
+	title?: string | null
+	bio?: string | null
+	websiteUrl?: string | null
+	twitterUrl?: string | null
+	linkedInUrl?: string | null
+	gitHubUrl?: string | null
+}
+
+export const authorSchema = z.object({
+	name: z.string(),
+	headShot: imageFieldSchema.nullish(),
+	title: z.string().nullish(),
+	bio: z.string().nullish(),
+	websiteUrl: z.string().nullish(),
+	twitterUrl: z.string().nullish(),
+	linkedInUrl: z.string().nullish(),
+	gitHubUrl: z.string().nullish(),
+}).passthrough()
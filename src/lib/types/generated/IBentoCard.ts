@@ -0,0 +1,22 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ImageField } from "@agility/nextjs"
+import { imageFieldSchema } from "./fieldSchemas"
+
+/**
+ * Bento Card (`BentoCard`)
+ */
+export interface IBentoCard {
+	eyebrow?: string | null
+	title: string
+	description?: string | null
+	graphic?: ImageField | null
+}
+
+export const bentoCardSchema = z.object({
+	eyebrow: z.string().nullish(),
+	title: z.string(),
+	description: z.string().nullish(),
+	graphic: imageFieldSchema.nullish(),
+}).passthrough()
@@ -0,0 +1,20 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import { linkedContentListSchema } from "./fieldSchemas"
+
+/**
+ * Bento Section (`BentoSection`)
+ */
+export interface IBentoSection {
+	subheading?: string | null
+	heading: string
+	//a list of BentoCard items
+	bentoCards?: { referencename: string, fulllist?: boolean } | null
+}
+
+export const bentoSectionSchema = z.object({
+	subheading: z.string().nullish(),
+	heading: z.string(),
+	bentoCards: linkedContentListSchema.nullish(),
+}).passthrough()
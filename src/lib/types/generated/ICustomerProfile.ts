@@ -0,0 +1,25 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ContentItem, ImageField } from "@agility/nextjs"
+import { imageFieldSchema, linkedContentItemSchema } from "./fieldSchemas"
+import type { IAudience } from "./IAudience"
+
+/**
+ * Customer Profile (`CustomerProfile`)
+ */
+export interface ICustomerProfile {
+	name: string
+	audience?: ContentItem<IAudience> | null
+	audience_TextField?: string | null
+	audience_ValueField?: string | null
+	logo?: ImageField | null
+}
+
+export const customerProfileSchema = z.object({
+	name: z.string(),
+	audience: linkedContentItemSchema.nullish(),
+	audience_TextField: z.string().nullish(),
+	audience_ValueField: z.string().nullish(),
+	logo: imageFieldSchema.nullish(),
+}).passthrough()
@@ -0,0 +1,45 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ContentItem, ImageField } from "@agility/nextjs"
+import { booleanFieldSchema, imageFieldSchema, linkedContentItemSchema } from "./fieldSchemas"
+import type { IAuthor } from "./IAuthor"
+import type { ICategory } from "./ICategory"
+import type { ITag } from "./ITag"
+
+/**
+ * Post (`Post`)
+ */
+export interface IPost {
+	heading: string
+	slug: string
+	postDate: string
+	content?: string | null
+	image?: ImageField | null
+	category?: ContentItem<ICategory> | null
+	category_TextField?: string | null
+	category_ValueField?: string | null
+	author?: ContentItem<IAuthor> | null
+	author_TextField?: string | null
+	author_ValueField?: string | null
+	tags?: ContentItem<ITag>[] | null
+	tags_ValueField?: string | null
+	isFeatured?: boolean | "true" | "false" | null
+}
+
+export const postSchema = z.object({
+	heading: z.string(),
+	slug: z.string(),
+	postDate: z.string(),
+	content: z.string().nullish(),
+	image: imageFieldSchema.nullish(),
+	category: linkedContentItemSchema.nullish(),
+	category_TextField: z.string().nullish(),
+	category_ValueField: z.string().nullish(),
+	author: linkedContentItemSchema.nullish(),
+	author_TextField: z.string().nullish(),
+	author_ValueField: z.string().nullish(),
+	tags: z.array(linkedContentItemSchema).nullish(),
+	tags_ValueField: z.string().nullish(),
+	isFeatured: booleanFieldSchema.nullish(),
+}).passthrough()
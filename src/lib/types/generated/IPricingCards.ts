@@ -0,0 +1,20 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import { linkedContentListSchema } from "./fieldSchemas"
+
+/**
+ * Pricing Cards (`PricingCards`)
+ */
+export interface IPricingCards {
+	title?: string | null
+	subtitle?: string | null
+	//a list of PricingTier items
+	pricingTiers?: { referencename: string, fulllist?: boolean } | null
+}
+
+export const pricingCardsSchema = z.object({
+	title: z.string().nullish(),
+	subtitle: z.string().nullish(),
+	pricingTiers: linkedContentListSchema.nullish(),
+}).passthrough()
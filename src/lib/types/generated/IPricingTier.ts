@@ -0,0 +1,35 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+import type { ContentItem, URLField } from "@agility/nextjs"
+import { urlFieldSchema, linkedContentItemSchema } from "./fieldSchemas"
+import type { IRegion } from "./IRegion"
+
+/**
+ * Pricing Tier (`PricingTier`)
+ */
+export interface IPricingTier {
+	name: string
+	description?: string | null
+	priceMonthly: number | string
+	currency?: string | null
+	currencySymbol?: string | null
+	ctaButton?: URLField | null
+	highlights?: string | null
+	region?: ContentItem<IRegion> | null
+	regionName?: string | null
+	regionID?: string | null
+}
+
+export const pricingTierSchema = z.object({
+	name: z.string(),
+	description: z.string().nullish(),
+	priceMonthly: z.union([z.number(), z.string()]),
+	currency: z.string().nullish(),
+	currencySymbol: z.string().nullish(),
+	ctaButton: urlFieldSchema.nullish(),
+	highlights: z.string().nullish(),
+	region: linkedContentItemSchema.nullish(),
+	regionName: z.string().nullish(),
+	regionID: z.string().nullish(),
+}).passthrough()
@@ -0,0 +1,14 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+
+/**
+ * Region (`Region`)
+ */
+export interface IRegion {
+	name: string
+}
+
+export const regionSchema = z.object({
+	name: z.string(),
+}).passthrough()
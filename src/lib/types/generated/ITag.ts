@@ -0,0 +1,14 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+
+/**
+ * Tag (`Tag`)
+ */
+export interface ITag {
+	title: string
+}
+
+export const tagSchema = z.object({
+	title: z.string(),
+}).passthrough()
@@ -0,0 +1,50 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import { z } from "zod"
+
+export interface FileField {
+	url: string
+	label: string
+	filesize: number
+}
+
+export interface GalleryField {
+	galleryid: number
+	[key: string]: unknown
+}
+
+export const booleanFieldSchema = z.union([z.boolean(), z.enum(["true", "false"])])
+
+export const imageFieldSchema = z.object({
+	url: z.string(),
+	label: z.string().nullish(),
+	height: z.number().nullish(),
+	width: z.number().nullish(),
+}).passthrough()
+
+export const fileFieldSchema = z.object({
+	url: z.string(),
+	label: z.string().nullish(),
+	filesize: z.number().nullish(),
+}).passthrough()
+
+export const galleryFieldSchema = z.object({
+	galleryid: z.number(),
+}).passthrough()
+
+export const urlFieldSchema = z.object({
+	href: z.string(),
+	target: z.string().nullish(),
+	text: z.string().nullish(),
+}).passthrough()
+
+//linked items are only checked one level deep - deeper levels depend on the contentLinkDepth of the request
+export const linkedContentItemSchema = z.union([
+	z.object({ contentID: z.number(), fields: z.record(z.any()) }).passthrough(),
+	z.object({ contentid: z.number() }).passthrough(),
+])
+
+export const linkedContentListSchema = z.object({
+	referencename: z.string(),
+	fulllist: z.boolean().nullish(),
+}).passthrough()
@@ -0,0 +1,44 @@
+// Generated by node/generate-types.ts from data/content-models.json - do not edit, run `npm run generate-types` instead.
+
+import type { ZodTypeAny } from "zod"
+import { postSchema } from "./IPost"
+import { authorSchema } from "./IAuthor"
+import { categorySchema } from "./ICategory"
+import { tagSchema } from "./ITag"
+import { audienceSchema } from "./IAudience"
+import { regionSchema } from "./IRegion"
+import { customerProfileSchema } from "./ICustomerProfile"
+import { pricingTierSchema } from "./IPricingTier"
+import { pricingCardsSchema } from "./IPricingCards"
+import { bentoSectionSchema } from "./IBentoSection"
+import { bentoCardSchema } from "./IBentoCard"
+
+export * from "./fieldSchemas"
+export * from "./IPost"
+export * from "./IAuthor"
+export * from "./ICategory"
+export * from "./ITag"
+export * from "./IAudience"
+export * from "./IRegion"
+export * from "./ICustomerProfile"
+export * from "./IPricingTier"
+export * from "./IPricingCards"
+export * from "./IBentoSection"
+export * from "./IBentoCard"
+
+/**
+ * The validators for each model, by lower case reference name (the `definitionName` of a content item).
+ */
+export const contentModelSchemas: { [referenceName: string]: ZodTypeAny } = {
+	"post": postSchema,
+	"author": authorSchema,
+	"category": categorySchema,
+	"tag": tagSchema,
+	"audience": audienceSchema,
+	"region": regionSchema,
+	"customerprofile": customerProfileSchema,
+	"pricingtier": pricingTierSchema,
+	"pricingcards": pricingCardsSchema,
+	"bentosection": bentoSectionSchema,
+	"bentocard": bentoCardSchema,
+}
@@ -1,5 +1,4 @@
-import type { IAudience } from '@/lib/types/IAudience'
-import type { IRegion } from '@/lib/types/IRegion'
+import type { IAudience, IRegion } from '@/lib/types/generated'
 import type { ContentItem } from '@agility/content-fetch'
 
 // Extended types that include contentID
@@ -0,0 +1,41 @@
+/**
+ * The number of single character edits (insertions, deletions or substitutions) to turn one string into another.
+ */
+const getEditDistance = (a: string, b: string) => {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+		}
+		previous = current
+	}
+
+	return previous[b.length]
+}
+
+//ignore case, spaces and punctuation, so "Logo Strip" is an exact match for "LogoStrip"
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+/**
+ * Find the candidate closest to a value, for "did you mean" suggestions.
+ * @param value
+ * @param candidates
+ * @returns the closest candidate, or null if none are close enough (within a third of the value's length)
+ */
+export const getClosestMatch = (value: string, candidates: string[]) => {
+	const normalizedValue = normalize(value)
+	const maxDistance = Math.max(2, Math.floor(normalizedValue.length / 3))
+
+	let closest: { candidate: string, distance: number } | null = null
+	for (const candidate of candidates) {
+		const distance = getEditDistance(normalizedValue, normalize(candidate))
+		if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+			closest = { candidate, distance }
+		}
+	}
+
+	return closest?.candidate ?? null
+}
@@ -1,5 +1,75 @@
 import type { UnloadedModuleProps } from "@agility/nextjs"
 
+//the zone every page template has, and the one rendered at the top of the page
+export const MAIN_CONTENT_ZONE = "main-content-zone"
+
+type ZoneItem = NonNullable<NonNullable<UnloadedModuleProps['page']>['zones']>[string][number]
+
+/**
+ * What the page adds to the globalData passed to the components, from the page template's registration.
+ */
+export interface TemplateGlobalData {
+	pageTemplate?: {
+		name: string
+		//the site header and footer are rendered around the template
+		chrome: boolean
+		//the components are rendered edge to edge, without the inset and rounded corners around backgrounds
+		fullBleed: boolean
+	}
+}
+
+/**
+ * Get the content id of an item in a zone.
+ */
+const getZoneItemContentID = (zoneItem: ZoneItem | undefined) => {
+	if (!zoneItem || !('item' in zoneItem)) return null
+
+	const item = zoneItem.item
+	// Check if it's a ContentItem (has contentID) or ContentReference (has contentid)
+	return 'contentID' in item ? item.contentID : 'contentid' in item ? item.contentid : null
+}
+
+/**
+ * Finds where a component is on a page.
+ *
+ * @param module - The module object from UnloadedModuleProps
+ * @param page - The page object from UnloadedModuleProps
+ * @returns the zone, the component's index in it and its module name, or null if the component isn't in any of the page's zones
+ */
+export const getComponentPosition = (module: UnloadedModuleProps['module'], page: UnloadedModuleProps['page']): { zone: string, index: number, moduleName: string } | null => {
+	for (const [zone, zoneItems] of Object.entries(page?.zones || {})) {
+		const index = (zoneItems || []).findIndex(zoneItem => getZoneItemContentID(zoneItem) === module.contentid)
+		if (index > -1) return { zone, index, moduleName: zoneItems[index].module }
+	}
+	return null
+}
+
+/**
+ * Finds the content zone a component is in.
+ *
+ * @param module - The module object from UnloadedModuleProps
+ * @param page - The page object from UnloadedModuleProps
+ * @returns the name of the zone, or null if the component isn't in any of the page's zones
+ */
+export const getComponentZone = (module: UnloadedModuleProps['module'], page: UnloadedModuleProps['page']): string | null => {
+	return getComponentPosition(module, page)?.zone ?? null
+}
+
+/**
+ * Checks if the current component is the first component in a content zone.
+ *
+ * @param module - The module object from UnloadedModuleProps
+ * @param page - The page object from UnloadedModuleProps
+ * @param zoneName - The zone to check - defaults to the zone the component is in
+ * @returns true if this component is the first in the zone, false otherwise
+ */
+export const isFirstComponentInZone = (module: UnloadedModuleProps['module'], page: UnloadedModuleProps['page'], zoneName?: string): boolean => {
+	const zone = zoneName || getComponentZone(module, page)
+	if (!zone) return false
+
+	return getZoneItemContentID(page?.zones?.[zone]?.[0]) === module.contentid
+}
+
 /**
  * Checks if the current component is the first component in the main content zone of a page.
  * This is useful for applying different styling (like negative margins) to the first component.
@@ -9,15 +79,26 @@ import type { UnloadedModuleProps } from "@agility/nextjs"
  * @returns true if this component is the first in the main-content-zone, false otherwise
  */
 export const isFirstComponentInPage = (module: UnloadedModuleProps['module'], page: UnloadedModuleProps['page']): boolean => {
-	const firstZoneItem = page?.zones?.["main-content-zone"]?.[0]
-
-	if (!firstZoneItem || !('item' in firstZoneItem)) {
-		return false
-	}
+	return isFirstComponentInZone(module, page, MAIN_CONTENT_ZONE)
+}
 
-	const item = firstZoneItem.item
-	// Check if it's a ContentItem (has contentID) or ContentReference (has contentid)
-	const itemContentID = 'contentID' in item ? item.contentID : 'contentid' in item ? item.contentid : null
+/**
+ * Checks if the page template renders its components edge to edge.
+ *
+ * @param globalData - The globalData from UnloadedModuleProps
+ * @returns
+ */
+export const isFullBleed = (globalData: UnloadedModuleProps['globalData']): boolean => {
+	return (globalData as TemplateGlobalData | undefined)?.pageTemplate?.fullBleed === true
+}
 
-	return itemContentID === module.contentid
+/**
+ * Checks if the site header is rendered above the page template - when it is, the first component
+ * can pull itself up underneath it.
+ *
+ * @param globalData - The globalData from UnloadedModuleProps
+ * @returns
+ */
+export const hasSiteChrome = (globalData: UnloadedModuleProps['globalData']): boolean => {
+	return (globalData as TemplateGlobalData | undefined)?.pageTemplate?.chrome !== false
 }
@@ -0,0 +1,103 @@
+import type { ContentItem } from "@agility/content-fetch"
+
+const pascalCase = (name: string) => name
+	.split(/[^a-zA-Z0-9]+/)
+	.filter(Boolean)
+	.map(part => part.charAt(0).toUpperCase() + part.slice(1))
+	.join("")
+
+const isContentItem = (value: any) => value && typeof value === "object" && value.contentID > 0 && value.fields
+
+/**
+ * Infer the type of a field from its value, and the @agility/nextjs types it needs.
+ */
+const inferFieldType = (value: any, imports: Set<string>): string => {
+	if (typeof value === "string") return "string"
+	if (typeof value === "number") return "number"
+	if (typeof value === "boolean") return "boolean"
+	if (!value || typeof value !== "object") return "unknown"
+
+	if (Array.isArray(value)) {
+		if (value.length > 0 && value.every(isContentItem)) {
+			imports.add("ContentItem")
+			return "ContentItem<any>[]"
+		}
+		return value.length > 0 ? `${inferFieldType(value[0], imports)}[]` : "unknown[]"
+	}
+
+	if (isContentItem(value)) {
+		imports.add("ContentItem")
+		return "ContentItem<any>"
+	}
+	if (typeof value.referencename === "string") return "{ referencename: string, fulllist?: boolean }"
+	if (typeof value.href === "string") {
+		imports.add("URLField")
+		return "URLField"
+	}
+	if (typeof value.url === "string" && "filesize" in value) return "{ url: string, label: string, filesize: number }"
+	if (typeof value.url === "string") {
+		imports.add("ImageField")
+		return "ImageField"
+	}
+	if (typeof value.galleryid === "number") return "{ galleryid: number }"
+
+	return "{ [key: string]: unknown }"
+}
+
+/**
+ * Generate the source of a new server component for a module, with its fields typed from one of its content items.
+ * @param param0 the module's reference name and a content item to infer the fields from
+ * @returns the component, and the entry to add to the component registry
+ */
+export const scaffoldComponent = ({ moduleName, contentItem }: { moduleName: string, contentItem: ContentItem<any> }) => {
+
+	const name = pascalCase(moduleName) || "NewComponent"
+	const interfaceName = `I${name}`
+	const imports = new Set<string>(["UnloadedModuleProps"])
+
+	const fields = Object.entries(contentItem.fields || {}).map(([key, value]) => ({
+		key,
+		type: inferFieldType(value, imports)
+	}))
+	const textFields = fields.filter(f => f.type === "string" && !/_(TextField|ValueField)$/.test(f.key))
+
+	const lines: string[] = []
+	lines.push(`import { Container } from "../container"`)
+	lines.push(`import { getContentItem } from "@/lib/cms/getContentItem"`)
+	lines.push(`import type { ${[...imports].sort().join(", ")} } from "@agility/nextjs"`)
+	lines.push("")
+	lines.push(`interface ${interfaceName} {`)
+	fields.forEach(f => lines.push(`\t${f.key}?: ${f.type}`))
+	lines.push(`}`)
+	lines.push("")
+	lines.push(`export const ${name} = async ({ module, languageCode }: UnloadedModuleProps) => {`)
+	lines.push(`\tconst { fields, contentID } = await getContentItem<${interfaceName}>({`)
+	lines.push(`\t\tcontentID: module.contentid,`)
+	lines.push(`\t\tlanguageCode,`)
+	lines.push(`\t})`)
+	lines.push("")
+	lines.push(`\treturn (`)
+	lines.push(`\t\t<section className="mt-20" data-agility-component={contentID}>`)
+	lines.push(`\t\t\t<Container>`)
+	textFields.forEach(f => lines.push(`\t\t\t\t<div data-agility-field="${f.key}">{fields.${f.key}}</div>`))
+	lines.push(`\t\t\t</Container>`)
+	lines.push(`\t\t</section>`)
+	lines.push(`\t)`)
+	lines.push(`}`)
+	lines.push("")
+
+	const registration = [
+		`{`,
+		`\tname: "${moduleName}",`,
+		`\tcontentModel: "${contentItem.properties?.definitionName || moduleName}",`,
+		`\trendering: "server",`,
+		`\tload: () => import("./${name}").then(m => m.${name}),`,
+		`},`,
+	].join("\n")
+
+	return {
+		fileName: `src/components/agility-components/${name}.tsx`,
+		source: lines.join("\n"),
+		registration
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * Reads the search params the middleware encodes into the last path segment, e.g. `~~~page%3D2~~~`
+ * Returns null if the segment doesn't hold search params
+ *
+ * @example
+ * parseSearchParamSegment('~~~category%3Dnews%26page%3D2~~~') // => { category: 'news', page: '2' }
+ */
+export function parseSearchParamSegment(segment: string | undefined): { [key: string]: string } | null {
+  if (!segment || !segment.startsWith('~~~') || !segment.endsWith('~~~')) return null
+
+  const searchParams: { [key: string]: string } = {}
+  const decoded = decodeURIComponent(segment.replace(/~~~+/g, ''))
+
+  decoded.split('&').map(part => part.trim()).forEach(part => {
+    const kvp = part.split('=')
+    if (kvp.length === 2) {
+      searchParams[kvp[0]] = kvp[1]
+    }
+  })
+
+  return searchParams
+}
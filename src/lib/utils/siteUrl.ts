@@ -0,0 +1,25 @@
+/**
+ * Get the public origin of the site, used for canonical URLs, hreflang alternates, the sitemap and feeds.
+ * Set SITE_URL in production - on Vercel it falls back to the production domain, otherwise localhost.
+ *
+ * @example
+ * getSiteUrl() // => "https://www.example.com"
+ */
+export function getSiteUrl(): string {
+  const configured = process.env.SITE_URL
+    || (process.env.VERCEL_PROJECT_PRODUCTION_URL && `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`)
+    || 'http://localhost:3000'
+
+  return configured.replace(/\/+$/, '')
+}
+
+/**
+ * Get the absolute URL of a path on the site - absolute URLs are returned as is
+ *
+ * @example
+ * toAbsoluteUrl('/fr/about') // => "https://www.example.com/fr/about"
+ */
+export function toAbsoluteUrl(path: string): string {
+  if (/^https?:\/\//i.test(path)) return path
+  return `${getSiteUrl()}${path.startsWith('/') ? path : `/${path}`}`
+}
@@ -0,0 +1,83 @@
+// The most URLs a single sitemap file may list - bigger sitemaps are split up behind a sitemap index
+export const SITEMAP_MAX_URLS = 50000
+
+export interface SitemapEntry {
+  url: string
+  lastModified?: Date
+  changeFrequency?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never'
+  priority?: number
+  // The same page in other locales, by hreflang (including `x-default`)
+  alternates?: { [hreflang: string]: string }
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+
+const isValidDate = (date: Date | undefined): date is Date => !!date && !isNaN(date.getTime())
+
+/**
+ * Renders sitemap entries as a `<urlset>`, with `xhtml:link` alternates for each locale
+ */
+export function renderUrlSet(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const lines = [`<loc>${escapeXml(entry.url)}</loc>`]
+
+    for (const [hreflang, href] of Object.entries(entry.alternates || {})) {
+      lines.push(`<xhtml:link rel="alternate" hreflang="${escapeXml(hreflang)}" href="${escapeXml(href)}" />`)
+    }
+    if (isValidDate(entry.lastModified)) lines.push(`<lastmod>${entry.lastModified.toISOString()}</lastmod>`)
+    if (entry.changeFrequency) lines.push(`<changefreq>${entry.changeFrequency}</changefreq>`)
+    if (entry.priority !== undefined) lines.push(`<priority>${entry.priority}</priority>`)
+
+    return `<url>\n${lines.map(line => `  ${line}`).join('\n')}\n</url>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+  ].join('\n')
+}
+
+/**
+ * Renders a `<sitemapindex>` pointing to each part of a split sitemap
+ */
+export function renderSitemapIndex(sitemaps: { url: string, lastModified?: Date }[]): string {
+  const items = sitemaps.map(sitemap => {
+    const lastmod = isValidDate(sitemap.lastModified) ? `\n  <lastmod>${sitemap.lastModified.toISOString()}</lastmod>` : ''
+    return `<sitemap>\n  <loc>${escapeXml(sitemap.url)}</loc>${lastmod}\n</sitemap>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...items,
+    '</sitemapindex>',
+  ].join('\n')
+}
+
+/**
+ * Splits sitemap entries into the parts of a sitemap index, each within the URL limit
+ */
+export function chunkSitemapEntries(entries: SitemapEntry[], size = SITEMAP_MAX_URLS): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = []
+  for (let i = 0; i < entries.length; i += size) {
+    chunks.push(entries.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Gets the latest of the last modified dates of some entries
+ */
+export function getLatestModified(entries: SitemapEntry[]): Date | undefined {
+  return entries.reduce<Date | undefined>((latest, entry) => {
+    if (!isValidDate(entry.lastModified)) return latest
+    return !latest || entry.lastModified > latest ? entry.lastModified : latest
+  }, undefined)
+}
@@ -0,0 +1,29 @@
+/**
+ * Converts a name to a URL slug, e.g. "Product News & Updates" to "product-news-updates"
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Gives each item in a list a slug from its name that's unique in the list, e.g. for author or tag urls.
+ * Names that come out the same get the contentID added ("jane-doe-123"), and names without any latin letters
+ * or numbers (e.g. "山田太郎") use the contentID on its own.
+ */
+export function withUniqueSlugs<T extends { contentID: number }>(items: T[], getName: (item: T) => string): (T & { slug: string })[] {
+  const slugs = items.map(item => slugify(getName(item) || ''))
+
+  const counts = new Map<string, number>()
+  slugs.forEach(slug => counts.set(slug, (counts.get(slug) || 0) + 1))
+
+  return items.map((item, index) => {
+    const slug = slugs[index]
+    if (slug === '') return { ...item, slug: `${item.contentID}` }
+    return { ...item, slug: (counts.get(slug) || 0) > 1 ? `${slug}-${item.contentID}` : slug }
+  })
+}
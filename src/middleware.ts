@@ -1,7 +1,11 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { checkRedirect } from './lib/cms-content/checkRedirect'
+import { checkRedirectFilter } from './lib/cms-content/checkRedirectFilter'
 import { defaultLocale, locales, isValidLocale, getLocaleFromPathname, removeLocaleFromPathname } from './lib/i18n/config'
+import { LOCALE_CHOICE_COOKIE, LOCALE_COOKIE, LOCALE_COOKIE_MAX_AGE, isBot, negotiateLocale } from './lib/i18n/negotiateLocale'
+
+//the RSS, Atom and JSON feeds of the blog posts, see src/app/[locale]/blog
+const BLOG_FEED_PATH = /^\/blog\/(feed\.xml|atom\.xml|feed\.json)$/
 
 // This function can be marked `async` if using `await` inside
 export async function middleware(request: NextRequest) {
@@ -51,20 +55,28 @@ export async function middleware(request: NextRequest) {
 			return NextResponse.rewrite(dynredirectUrl)
 
 		}
+	} else if (BLOG_FEED_PATH.test(pathname) && !getLocaleFromPathname(pathname, locales)) {
+		//*** the blog feeds for the default locale aren't prefixed ***
+		const feedUrl = new URL(`/${defaultLocale}${pathname}${request.nextUrl.search}`, request.nextUrl.origin)
+		return NextResponse.rewrite(feedUrl)
+
 	} else if ((!ext || ext.length === 0)) {
 
 		/**********************
 		 * CHECK FOR REDIRECT *
 		***********************/
-		const redirection = await checkRedirect({ path: request.nextUrl.pathname })
+		const redirection = await checkRedirectFilter({
+			path: request.nextUrl.pathname,
+			search: request.nextUrl.search,
+			origin: request.nextUrl.origin
+		})
 
 		if (redirection) {
 			//redirect to the destination url
 			//cache the redirect for 10 minutes
 			if (redirection.destinationUrl.startsWith("/")) {
-				//handle relative paths
-				const url = request.nextUrl.clone()
-				url.pathname = redirection.destinationUrl
+				//handle relative paths (the destination already includes the preserved query string)
+				const url = new URL(redirection.destinationUrl, request.nextUrl.origin)
 				return NextResponse.redirect(url, {
 					status: redirection.statusCode,
 					headers: {
@@ -123,7 +135,7 @@ export async function middleware(request: NextRequest) {
 
 		// Only process query parameters that are expected/used within the app
 		// This prevents issues with long tracking query strings (e.g., Google Analytics)
-		const ALLOWED_QUERY_PARAMS = ['audience', 'region', 'q'] // Whitelist of allowed query params
+		const ALLOWED_QUERY_PARAMS = ['audience', 'region', 'q', 'category', 'page'] // Whitelist of allowed query params
 		const MAX_QUERY_STRING_LENGTH = 500 // Maximum length for query string encoding
 
 		// Filter search params to only include whitelisted parameters
@@ -165,6 +177,41 @@ export async function middleware(request: NextRequest) {
 
 		if (!hasLocalePrefix && !isStaticFile) {
 
+			/**********************
+			 * LOCALE NEGOTIATION *
+			 **********************/
+
+			// Only the home page is negotiated - other slugs can be translated, so they can't just be prefixed.
+			// Crawlers and prefetches get the default locale, so every locale is indexed under its own URL.
+			const isPrefetch = request.headers.has('next-router-prefetch') || request.headers.get('purpose') === 'prefetch'
+			if (request.nextUrl.pathname === '/' && locales.length > 1 && !isPrefetch && !isBot(request.headers.get('user-agent'))) {
+				const negotiated = negotiateLocale({
+					cookieLocale: request.cookies.get(LOCALE_COOKIE)?.value,
+					hasChosen: request.cookies.has(LOCALE_CHOICE_COOKIE),
+					acceptLanguage: request.headers.get('accept-language'),
+					locales,
+					defaultLocale
+				})
+
+				if (negotiated.locale !== defaultLocale) {
+					//redirect to the home page of the visitor's locale - it depends on their headers, so it can't be cached
+					const redirectUrl = new URL(request.nextUrl.toString())
+					redirectUrl.pathname = `/${negotiated.locale}`
+					const response = NextResponse.redirect(redirectUrl, {
+						headers: {
+							"Cache-Control": "private, no-store",
+							"Vary": "Accept-Language, Cookie"
+						}
+					})
+
+					//remember the negotiated locale, so later visits don't depend on the header (the toggle sets its own cookie)
+					if (!negotiated.isChoice) {
+						response.cookies.set(LOCALE_COOKIE, negotiated.locale, { path: '/', maxAge: LOCALE_COOKIE_MAX_AGE, sameSite: 'lax' })
+					}
+					return response
+				}
+			}
+
 			const localeBasedUrl = new URL(`/${defaultLocale}${pathname}`, baseUrl)
 
 			// For all paths (including root), rewrite to include default locale (no redirect)